@@ -0,0 +1,75 @@
+import { createSvnError, parseSvnErrorDetails } from './svn-error.parser';
+import { SvnAuthenticationError, SvnConflictError, SvnError, SvnLockedError, SvnNetworkError, SvnNotWorkingCopyError, SvnOutOfDateError, SvnPathNotFoundError } from './svn.error';
+
+describe('SvnError parser', () => {
+  describe('parseSvnErrorDetails', () => {
+    it('should parse every error line in order', () => {
+      const stderr = ['svn: E155011: Commit failed (details follow):', "svn: E155011: File '/wc/a.txt' is out of date", "svn: E160028: File '/trunk/a.txt' is out of date"].join('\n');
+
+      expect(parseSvnErrorDetails(stderr)).toEqual([
+        { code: 'E155011', message: 'Commit failed (details follow):' },
+        { code: 'E155011', message: "File '/wc/a.txt' is out of date" },
+        { code: 'E160028', message: "File '/trunk/a.txt' is out of date" },
+      ]);
+    });
+
+    it('should ignore warnings and unrelated lines', () => {
+      const stderr = "svn: warning: W155010: The node '/wc/missing' was not found.\n\nsvn: E200009: Could not display info for all targets because some targets don't exist";
+
+      expect(parseSvnErrorDetails(stderr)).toEqual([{ code: 'E200009', message: "Could not display info for all targets because some targets don't exist" }]);
+    });
+
+    it('should parse lines printed by other svn tools', () => {
+      expect(parseSvnErrorDetails("svnmucc: E160013: Path 'trunk/x' not found")).toEqual([{ code: 'E160013', message: "Path 'trunk/x' not found" }]);
+    });
+  });
+
+  describe('createSvnError', () => {
+    it.each([
+      ["svn: E155007: '/tmp' is not a working copy", SvnNotWorkingCopyError, 'E155007'],
+      ['svn: E170001: Authorization failed', SvnAuthenticationError, 'E170001'],
+      ['svn: E215004: No more credentials or we tried too many times.\nAuthentication failed', SvnAuthenticationError, 'E215004'],
+      ["svn: E160013: '/trunk/missing.txt' path not found", SvnPathNotFoundError, 'E160013'],
+      ["svn: E170000: URL 'file:///repo/missing' doesn't exist", SvnPathNotFoundError, 'E170000'],
+      ["svn: E155015: Aborting commit: '/wc/a.txt' remains in conflict", SvnConflictError, 'E155015'],
+      ["svn: E155004: Run 'svn cleanup' to remove locks (type 'svn help cleanup' for details)", SvnLockedError, 'E155004'],
+      ["svn: E160035: Path '/trunk/a.png' is already locked by user 'bob' in filesystem", SvnLockedError, 'E160035'],
+      ["svn: E170013: Unable to connect to a repository at URL 'https://svn.example.com/repo'\nsvn: E670002: Name or service not known", SvnNetworkError, 'E170013'],
+      ['svn: E230001: Server SSL certificate verification failed: issuer is not trusted', SvnNetworkError, 'E230001'],
+    ])('should map %s', (stderr, ErrorClass, code) => {
+      const error = createSvnError(stderr as string, 1);
+
+      expect(error).toBeInstanceOf(ErrorClass);
+      expect(error).toBeInstanceOf(SvnError);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.code).toBe(code);
+      expect(error.exitCode).toBe(1);
+      expect(error.stderr).toBe(stderr);
+    });
+
+    it('should classify by the first known code in a chain', () => {
+      const stderr = "svn: E155011: Commit failed (details follow):\nsvn: E155011: File '/wc/a.txt' is out of date\nsvn: E160028: File '/trunk/a.txt' is out of date";
+      const error = createSvnError(stderr, 1);
+
+      expect(error).toBeInstanceOf(SvnOutOfDateError);
+      expect(error.code).toBe('E155011');
+      expect(error.hasCode('E160028')).toBe(true);
+      expect(error.details).toHaveLength(3);
+    });
+
+    it('should fall back to the base class for unknown codes', () => {
+      const error = createSvnError("svn: E205000: Try 'svn help info' for more information", 1);
+
+      expect(error.constructor).toBe(SvnError);
+      expect(error.code).toBe('E205000');
+      expect(error.name).toBe('SvnError');
+    });
+
+    it('should keep stderr as message when no error code is printed', () => {
+      const error = createSvnError('Segmentation fault', 139);
+
+      expect(error.code).toBeUndefined();
+      expect(error.message).toBe('Segmentation fault');
+    });
+  });
+});
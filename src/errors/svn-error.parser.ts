@@ -0,0 +1,97 @@
+import { SvnAuthenticationError, SvnConflictError, SvnError, SvnLockedError, SvnNetworkError, SvnNotWorkingCopyError, SvnOutOfDateError, SvnPathNotFoundError } from './svn.error';
+import type { SvnErrorDetail } from './svn.error';
+
+type SvnErrorClass = new (message: string, options?: ConstructorParameters<typeof SvnError>[1]) => SvnError;
+
+/**
+ * Subversion error code to error class mapping
+ * See subversion/include/svn_error_codes.h
+ */
+const ERROR_CLASSES: Record<string, SvnErrorClass> = {
+  // Authentication / authorization
+  E170001: SvnAuthenticationError, // RA_NOT_AUTHORIZED
+  E175013: SvnAuthenticationError, // RA_DAV_FORBIDDEN
+  E215000: SvnAuthenticationError, // AUTHN_CREDS_UNAVAILABLE
+  E215001: SvnAuthenticationError, // AUTHN_NO_PROVIDER
+  E215002: SvnAuthenticationError, // AUTHN_PROVIDERS_EXHAUSTED
+  E215004: SvnAuthenticationError, // AUTHN_FAILED
+  E220001: SvnAuthenticationError, // AUTHZ_UNREADABLE
+  E220004: SvnAuthenticationError, // AUTHZ_UNWRITABLE
+
+  // Path not found
+  E000002: SvnPathNotFoundError, // ENOENT
+  E155010: SvnPathNotFoundError, // WC_PATH_NOT_FOUND
+  E160013: SvnPathNotFoundError, // FS_NOT_FOUND
+  E170000: SvnPathNotFoundError, // RA_ILLEGAL_URL
+  E195012: SvnPathNotFoundError, // CLIENT_UNRELATED_RESOURCES (location not found)
+  E200005: SvnPathNotFoundError, // UNVERSIONED_RESOURCE
+  E200009: SvnPathNotFoundError, // ILLEGAL_TARGET
+
+  // Not a working copy
+  E155007: SvnNotWorkingCopyError, // WC_NOT_WORKING_COPY
+
+  // Out of date
+  E155011: SvnOutOfDateError, // WC_NOT_UP_TO_DATE
+  E160028: SvnOutOfDateError, // FS_TXN_OUT_OF_DATE
+  E170004: SvnOutOfDateError, // RA_OUT_OF_DATE
+
+  // Conflict
+  E155015: SvnConflictError, // WC_FOUND_CONFLICT
+  E160024: SvnConflictError, // FS_CONFLICT
+  E195016: SvnConflictError, // CLIENT_MERGE_UPDATE_REQUIRED
+
+  // Locked
+  E155004: SvnLockedError, // WC_LOCKED
+  E155037: SvnLockedError, // WC_CLEANUP_REQUIRED
+  E160035: SvnLockedError, // FS_PATH_ALREADY_LOCKED
+  E160037: SvnLockedError, // FS_BAD_LOCK_TOKEN
+  E160038: SvnLockedError, // FS_NO_LOCK_TOKEN
+  E160039: SvnLockedError, // FS_LOCK_OWNER_MISMATCH
+  E195022: SvnLockedError, // CLIENT_NO_LOCK_TOKEN
+
+  // Network / certificate
+  E000110: SvnNetworkError, // ETIMEDOUT
+  E000111: SvnNetworkError, // ECONNREFUSED
+  E120108: SvnNetworkError, // serf: connection closed
+  E120171: SvnNetworkError, // serf: SSL communication error
+  E170013: SvnNetworkError, // RA_CANNOT_CREATE_SESSION
+  E175002: SvnNetworkError, // RA_DAV_REQUEST_FAILED
+  E210002: SvnNetworkError, // RA_SVN_CONNECTION_CLOSED
+  E230001: SvnNetworkError, // RA_SERF_SSL_CERT_UNTRUSTED
+  E670002: SvnNetworkError, // host not found
+  E670008: SvnNetworkError, // host not found (macOS)
+  E731001: SvnNetworkError, // host not found (Windows)
+};
+
+/**
+ * Matches `svn: E155007: message` (also `svnmucc:` and other svn tools)
+ */
+const ERROR_LINE_PATTERN = /^[\w-]+: (E\d{6}): (.*)$/gm;
+
+/**
+ * Parse `E######` error lines from svn stderr output
+ */
+export function parseSvnErrorDetails(stderr: string): SvnErrorDetail[] {
+  return Array.from(stderr.matchAll(ERROR_LINE_PATTERN), (match) => ({
+    code: match[1],
+    message: match[2].trim(),
+  }));
+}
+
+/**
+ * Build a typed SvnError from svn stderr output
+ * The class is chosen by the first error code with a known category; `code` is that code, or the first code printed
+ */
+export function createSvnError(stderr: string, exitCode?: number): SvnError {
+  const details = parseSvnErrorDetails(stderr);
+  const classified = details.find((detail) => ERROR_CLASSES[detail.code]);
+  const ErrorClass = classified ? ERROR_CLASSES[classified.code] : SvnError;
+  const message = details.length > 0 ? details.map((detail) => `${detail.code}: ${detail.message}`).join('\n') : stderr.trim() || `svn exited with code ${exitCode}`;
+
+  return new ErrorClass(message, {
+    code: classified?.code ?? details[0]?.code,
+    details,
+    stderr,
+    exitCode,
+  });
+}
@@ -0,0 +1,137 @@
+/**
+ * Single `svn: E######: message` line parsed from stderr
+ */
+export interface SvnErrorDetail {
+  /**
+   * Subversion error code (e.g. E155007)
+   */
+  code: string;
+
+  /**
+   * Error message without the `svn: E######:` prefix
+   */
+  message: string;
+}
+
+export interface SvnErrorOptions {
+  /**
+   * Subversion error code that determined the error class
+   */
+  code?: string;
+
+  /**
+   * All error lines in the order svn printed them
+   */
+  details?: SvnErrorDetail[];
+
+  /**
+   * Raw standard error output
+   */
+  stderr?: string;
+
+  /**
+   * Process exit code
+   */
+  exitCode?: number;
+}
+
+/**
+ * Base class of all errors raised by SVN commands
+ * Branch on `code` (e.g. `error.code === 'E155007'`) or on the subclass
+ */
+export class SvnError extends Error {
+  /**
+   * Subversion error code (e.g. E155007), undefined if svn printed none
+   */
+  readonly code?: string;
+
+  /**
+   * All error lines in the order svn printed them
+   */
+  readonly details: SvnErrorDetail[];
+
+  /**
+   * Raw standard error output
+   */
+  readonly stderr: string;
+
+  /**
+   * Process exit code
+   */
+  readonly exitCode?: number;
+
+  constructor(message: string, options: SvnErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.code = options.code;
+    this.details = options.details || [];
+    this.stderr = options.stderr || '';
+    this.exitCode = options.exitCode;
+  }
+
+  /**
+   * Check whether svn reported the given error code anywhere in its output
+   */
+  hasCode(code: string): boolean {
+    return this.details.some((detail) => detail.code === code);
+  }
+}
+
+/**
+ * Authentication or authorization failure (E170001, E215004, E175013, ...)
+ */
+export class SvnAuthenticationError extends SvnError {}
+
+/**
+ * Path or URL does not exist (E160013, E170000, E155010, E200009, ...)
+ */
+export class SvnPathNotFoundError extends SvnError {}
+
+/**
+ * Local path is not a working copy (E155007)
+ */
+export class SvnNotWorkingCopyError extends SvnError {}
+
+/**
+ * Working copy or path is out of date (E155011, E160028, E170004, ...)
+ */
+export class SvnOutOfDateError extends SvnError {}
+
+/**
+ * Conflict prevents the operation (E155015, E160024, ...)
+ */
+export class SvnConflictError extends SvnError {}
+
+/**
+ * Working copy or path is locked (E155004, E155037, E160035, ...)
+ */
+export class SvnLockedError extends SvnError {}
+
+/**
+ * Network or certificate failure (E170013, E175002, E230001, ...)
+ */
+export class SvnNetworkError extends SvnError {}
+
+/**
+ * Thrown when an SVN command is cancelled through an AbortSignal
+ */
+export class SvnCancelledError extends SvnError {
+  constructor(message: string = 'SVN command was cancelled') {
+    super(message, { code: 'E200015' });
+  }
+}
+
+/**
+ * Thrown when an SVN command exceeds its timeout
+ */
+export class SvnTimeoutError extends SvnError {
+  /**
+   * Timeout that was exceeded, in milliseconds
+   */
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`SVN command timed out after ${timeoutMs}ms`);
+    this.timeoutMs = timeoutMs;
+  }
+}
@@ -0,0 +1,86 @@
+import { ArgumentsHost, ExceptionFilter, HttpStatus } from '@nestjs/common';
+import { getSvnErrorHttpStatus, SvnExceptionFilter } from './svn-exception.filter';
+import { createSvnError } from '../errors/svn-error.parser';
+import { SvnCancelledError, SvnError, SvnTimeoutError } from '../errors/svn.error';
+
+describe('SvnExceptionFilter', () => {
+  describe('getSvnErrorHttpStatus', () => {
+    it.each([
+      ['svn: E170001: Authorization failed', HttpStatus.FORBIDDEN],
+      ["svn: E160013: '/trunk/missing.txt' path not found", HttpStatus.NOT_FOUND],
+      ["svn: E155007: '/tmp' is not a working copy", HttpStatus.BAD_REQUEST],
+      ["svn: E155011: File '/wc/a.txt' is out of date", HttpStatus.CONFLICT],
+      ["svn: E155015: Aborting commit: '/wc/a.txt' remains in conflict", HttpStatus.CONFLICT],
+      ["svn: E160035: Path '/trunk/a.png' is already locked by user 'bob' in filesystem", HttpStatus.LOCKED],
+      ["svn: E170013: Unable to connect to a repository at URL 'https://svn.example.com/repo'", HttpStatus.BAD_GATEWAY],
+      ['svn: E205000: Try svn help', HttpStatus.INTERNAL_SERVER_ERROR],
+    ])('should map %s', (stderr, status) => {
+      expect(getSvnErrorHttpStatus(createSvnError(stderr, 1))).toBe(status);
+    });
+
+    it('should map timeouts and cancellations', () => {
+      expect(getSvnErrorHttpStatus(new SvnTimeoutError(1000))).toBe(HttpStatus.GATEWAY_TIMEOUT);
+      expect(getSvnErrorHttpStatus(new SvnCancelledError())).toBe(499);
+      expect(getSvnErrorHttpStatus(new SvnError('unknown'))).toBe(HttpStatus.INTERNAL_SERVER_ERROR);
+    });
+  });
+
+  describe('catch', () => {
+    it('should reply with the mapped status and error code', () => {
+      const httpAdapter = {
+        isHeadersSent: jest.fn().mockReturnValue(false),
+        reply: jest.fn(),
+        end: jest.fn(),
+      };
+      const response = {};
+      const host = { getType: () => 'http', getArgByIndex: jest.fn().mockReturnValue(response), getArgs: jest.fn().mockReturnValue([{}, response]) } as unknown as ArgumentsHost;
+      const filter = new SvnExceptionFilter(httpAdapter as any);
+      const handle: ExceptionFilter['catch'] = filter.catch.bind(filter);
+
+      handle(createSvnError("svn: E160013: '/trunk/missing.txt' path not found", 1), host);
+
+      expect(httpAdapter.reply).toHaveBeenCalledWith(
+        response,
+        {
+          statusCode: HttpStatus.NOT_FOUND,
+          error: 'SvnPathNotFoundError',
+          message: "E160013: '/trunk/missing.txt' path not found",
+          code: 'E160013',
+        },
+        HttpStatus.NOT_FOUND,
+      );
+    });
+
+    it('should end the response when headers were already sent', () => {
+      const httpAdapter = {
+        isHeadersSent: jest.fn().mockReturnValue(true),
+        reply: jest.fn(),
+        end: jest.fn(),
+      };
+      const response = {};
+      const host = { getType: () => 'http', getArgByIndex: jest.fn().mockReturnValue(response), getArgs: jest.fn().mockReturnValue([{}, response]) } as unknown as ArgumentsHost;
+      const filter = new SvnExceptionFilter(httpAdapter as any);
+      const handle: ExceptionFilter['catch'] = filter.catch.bind(filter);
+
+      handle(new SvnTimeoutError(1000), host);
+
+      expect(httpAdapter.end).toHaveBeenCalledWith(response);
+      expect(httpAdapter.reply).not.toHaveBeenCalled();
+    });
+
+    it('should rethrow the original error outside HTTP or without an adapter', () => {
+      const httpAdapter = { isHeadersSent: jest.fn(), reply: jest.fn(), end: jest.fn() };
+      const error = new SvnTimeoutError(1000);
+      const rpcHost = { getType: () => 'rpc', getArgByIndex: jest.fn() } as unknown as ArgumentsHost;
+      const httpHost = { getType: () => 'http', getArgByIndex: jest.fn() } as unknown as ArgumentsHost;
+      const filter = new SvnExceptionFilter(httpAdapter as any);
+      const handle: ExceptionFilter['catch'] = filter.catch.bind(filter);
+      const filterWithoutAdapter = new SvnExceptionFilter();
+      const handleWithoutAdapter: ExceptionFilter['catch'] = filterWithoutAdapter.catch.bind(filterWithoutAdapter);
+
+      expect(() => handle(error, rpcHost)).toThrow(error);
+      expect(() => handleWithoutAdapter(error, httpHost)).toThrow(error);
+      expect(httpAdapter.reply).not.toHaveBeenCalled();
+    });
+  });
+});
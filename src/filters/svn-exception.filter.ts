@@ -0,0 +1,81 @@
+import { ArgumentsHost, Catch, HttpServer, HttpStatus } from '@nestjs/common';
+import { BaseExceptionFilter } from '@nestjs/core';
+import {
+  SvnAuthenticationError,
+  SvnCancelledError,
+  SvnConflictError,
+  SvnError,
+  SvnLockedError,
+  SvnNetworkError,
+  SvnNotWorkingCopyError,
+  SvnOutOfDateError,
+  SvnPathNotFoundError,
+  SvnTimeoutError,
+} from '../errors/svn.error';
+
+/**
+ * Non-standard "client closed request" status used for cancelled commands
+ */
+const CLIENT_CLOSED_REQUEST = 499;
+
+/**
+ * SvnError class to HTTP status mapping
+ */
+const STATUS_MAP: Array<[new (...args: any[]) => SvnError, number]> = [
+  [SvnAuthenticationError, HttpStatus.FORBIDDEN],
+  [SvnPathNotFoundError, HttpStatus.NOT_FOUND],
+  [SvnNotWorkingCopyError, HttpStatus.BAD_REQUEST],
+  [SvnOutOfDateError, HttpStatus.CONFLICT],
+  [SvnConflictError, HttpStatus.CONFLICT],
+  [SvnLockedError, HttpStatus.LOCKED],
+  [SvnNetworkError, HttpStatus.BAD_GATEWAY],
+  [SvnTimeoutError, HttpStatus.GATEWAY_TIMEOUT],
+  [SvnCancelledError, CLIENT_CLOSED_REQUEST],
+];
+
+/**
+ * Get the HTTP status matching an SvnError
+ */
+export function getSvnErrorHttpStatus(error: SvnError): number {
+  const match = STATUS_MAP.find(([ErrorClass]) => error instanceof ErrorClass);
+
+  return match ? match[1] : HttpStatus.INTERNAL_SERVER_ERROR;
+}
+
+/**
+ * Exception filter mapping SvnError to HTTP responses
+ * Register globally with `app.useGlobalFilters(new SvnExceptionFilter(app.get(HttpAdapterHost).httpAdapter))`
+ * or as an APP_FILTER provider; outside HTTP contexts (RPC, WebSockets) the SvnError is rethrown unchanged
+ */
+@Catch(SvnError)
+export class SvnExceptionFilter extends BaseExceptionFilter {
+  catch(exception: SvnError, host: ArgumentsHost): void {
+    const httpAdapter = this.applicationRef ?? this.httpAdapterHost?.httpAdapter;
+
+    // Only HTTP responses can be written here
+    if (host.getType() !== 'http' || !httpAdapter) {
+      throw exception;
+    }
+
+    const status = getSvnErrorHttpStatus(exception);
+    const body = {
+      statusCode: status,
+      error: exception.name,
+      message: exception.message,
+      code: exception.code,
+    };
+
+    this.reply(httpAdapter, host.getArgByIndex(1), body, status);
+  }
+
+  /**
+   * Send the body through the HTTP adapter, as BaseExceptionFilter does for an HttpException
+   */
+  private reply(httpAdapter: HttpServer, response: unknown, body: Record<string, unknown>, status: number): void {
+    if (httpAdapter.isHeadersSent(response)) {
+      httpAdapter.end(response);
+    } else {
+      httpAdapter.reply(response, body, status);
+    }
+  }
+}
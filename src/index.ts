@@ -2,8 +2,14 @@ export * from './svn.module';
 
 export * from './svn.service';
 
+export * from './services/svn-remote-transaction';
+
 export * from './interfaces/svn-options.interface';
 
 export * from './interfaces/svn-module-options.interface';
 
 export * from './dto/svn-command.dto';
+
+export * from './errors/svn.error';
+
+export * from './filters/svn-exception.filter';
@@ -28,4 +28,14 @@ export interface SvnModuleOptions {
    * Disable authentication cache
    */
   noAuthCache?: boolean;
+
+  /**
+   * Command timeout in milliseconds (kills the svn process tree when exceeded)
+   */
+  timeoutMs?: number;
+
+  /**
+   * Failure handling: 'result' resolves with an empty/failed result (default), 'throw' rejects with a typed SvnError
+   */
+  errorMode?: 'throw' | 'result';
 }
@@ -1,3 +1,6 @@
+import type { Readable } from 'stream';
+import type { SvnError } from '../errors/svn.error';
+
 export interface SvnOptions {
   /**
    * SVN username
@@ -28,13 +31,70 @@ export interface SvnOptions {
    * Disable authentication cache
    */
   noAuthCache?: boolean;
+
+  /**
+   * Command timeout in milliseconds (kills the svn process tree when exceeded)
+   */
+  timeoutMs?: number;
+
+  /**
+   * Failure handling: 'result' resolves with an empty/failed result (default), 'throw' rejects with a typed SvnError
+   */
+  errorMode?: 'throw' | 'result';
+
+  /**
+   * Abort signal used to cancel the command (kills the svn process tree)
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Revision keywords: latest repository revision, working copy base, last change at or before BASE, and the revision before COMMITTED
+ */
+export type SvnRevisionKeyword = 'HEAD' | 'BASE' | 'COMMITTED' | 'PREV';
+
+/**
+ * Date in svn revision syntax, e.g. `{2024-01-01}` or `{2024-01-01T12:00:00Z}`
+ */
+export type SvnRevisionDate = `{${string}}`;
+
+/**
+ * Single revision: number, keyword or date (a Date is passed as `{ISO 8601}`)
+ * Numeric strings are accepted as reported by svn (e.g. SvnLogEntry.revision)
+ * Other revision syntax can still be passed with a cast (`value as SvnRevision`), it reaches svn unchanged
+ */
+export type SvnRevision = number | `${number}` | SvnRevisionKeyword | SvnRevisionDate | Date;
+
+/**
+ * Revision range (`start:end`), as an object or in svn syntax (e.g. `1:HEAD`)
+ */
+export type SvnRevisionRange = { start: SvnRevision; end: SvnRevision } | `${number | SvnRevisionKeyword | SvnRevisionDate}:${number | SvnRevisionKeyword | SvnRevisionDate}`;
+
+/**
+ * Path or URL addressed at a peg revision (`path@REV`), e.g. a file that was deleted or moved later
+ */
+export interface SvnPegTarget {
+  /**
+   * Working copy path, URL or path relative to repositoryUrl
+   */
+  path: string;
+
+  /**
+   * Revision in which the path is looked up
+   */
+  pegRevision?: SvnRevision;
 }
 
+/**
+ * Command target: a path (a last segment containing `@` is escaped automatically) or a pegged target
+ */
+export type SvnTarget = string | SvnPegTarget;
+
 export interface SvnCheckoutOptions extends SvnOptions {
   /**
    * Revision to checkout
    */
-  revision?: string | number;
+  revision?: SvnRevision;
 
   /**
    * Checkout depth
@@ -46,7 +106,7 @@ export interface SvnUpdateOptions extends SvnOptions {
   /**
    * Revision to update to
    */
-  revision?: string | number;
+  revision?: SvnRevision;
 
   /**
    * Conflict resolution method
@@ -69,13 +129,18 @@ export interface SvnCommitOptions extends SvnOptions {
    * Commit depth
    */
   depth?: 'empty' | 'files' | 'immediates' | 'infinity';
+
+  /**
+   * Revision properties to set on the new revision (--with-revprop name=value)
+   */
+  revprops?: Record<string, string>;
 }
 
 export interface SvnExportOptions extends SvnOptions {
   /**
    * Revision to export
    */
-  revision?: string | number;
+  revision?: SvnRevision;
 
   /**
    * Export depth
@@ -98,6 +163,23 @@ export interface SvnExportOptions extends SvnOptions {
   ignoreExternals?: boolean;
 }
 
+export interface SvnInfoOptions extends SvnOptions {
+  /**
+   * Revision to query
+   */
+  revision?: SvnRevision;
+
+  /**
+   * Info depth
+   */
+  depth?: 'empty' | 'files' | 'immediates' | 'infinity';
+
+  /**
+   * Recursive info (same as depth infinity)
+   */
+  recursive?: boolean;
+}
+
 export interface SvnLogOptions extends SvnOptions {
   /**
    * Limit number of log entries
@@ -105,21 +187,51 @@ export interface SvnLogOptions extends SvnOptions {
   limit?: number;
 
   /**
-   * Revision to query
+   * Revision or range to query
    */
-  revision?: string;
+  revision?: SvnRevision | SvnRevisionRange;
 
   /**
    * Stop on copy
    */
   stopOnCopy?: boolean;
+
+  /**
+   * Report the changed paths of each revision in SvnLogEntry.paths (--verbose)
+   */
+  verbose?: boolean;
+
+  /**
+   * Only include revisions whose author, date, message or changed paths match any of the glob patterns (--search)
+   */
+  search?: string | string[];
+
+  /**
+   * Patterns that must match as well; svn combines them with the last search pattern (--search-and)
+   */
+  searchAnd?: string[];
+
+  /**
+   * Include the revisions merged by each revision as SvnLogEntry.children (--use-merge-history)
+   */
+  useMergeHistory?: boolean;
+
+  /**
+   * Revision properties to retrieve into SvnLogEntry.revprops (--with-revprop)
+   */
+  withRevprops?: string[];
+
+  /**
+   * Retrieve all revision properties into SvnLogEntry.revprops (--with-all-revprops)
+   */
+  withAllRevprops?: boolean;
 }
 
 export interface SvnListOptions extends SvnOptions {
   /**
    * Revision to query
    */
-  revision?: string;
+  revision?: SvnRevision;
 
   /**
    * Recursive listing
@@ -130,35 +242,164 @@ export interface SvnListOptions extends SvnOptions {
    * List depth
    */
   depth?: 'empty' | 'files' | 'immediates' | 'infinity';
+
+  /**
+   * Also list entries of externals definitions (--include-externals)
+   */
+  includeExternals?: boolean;
 }
 
 export interface SvnCatOptions extends SvnOptions {
   /**
    * Revision to read
    */
-  revision?: string;
+  revision?: SvnRevision;
+
+  /**
+   * Peg revision the path is looked up in (appended as `path@peg`), for files that were moved or deleted since
+   */
+  pegRevision?: SvnRevision;
+
+  /**
+   * Do not expand svn:keywords, so the content matches the bytes stored in the repository
+   */
+  ignoreKeywords?: boolean;
 }
 
 export interface SvnDiffOptions extends SvnOptions {
   /**
-   * Revision to compare
+   * Revision or range to compare
    */
-  revision?: string;
+  revision?: SvnRevision | SvnRevisionRange;
 
   /**
    * Old revision (used together with newRevision)
    */
-  oldRevision?: string;
+  oldRevision?: SvnRevision;
 
   /**
    * New revision (used together with oldRevision)
    */
-  newRevision?: string;
+  newRevision?: SvnRevision;
+
+  /**
+   * Show the changes made in this revision (`--change`, shorthand for N-1:N; a negative number reverses the change)
+   * svn only accepts revision numbers here, use revision for keywords and dates
+   */
+  change?: number | `${number}`;
 
   /**
    * Diff command to use
    */
   diffCmd?: string;
+
+  /**
+   * Use git's extended diff format (new/deleted file modes, copy sources)
+   */
+  git?: boolean;
+
+  /**
+   * Ignore all whitespace changes (`-x -w`)
+   */
+  ignoreWhitespace?: boolean;
+
+  /**
+   * Ignore line ending changes (`-x --ignore-eol-style`)
+   */
+  ignoreEolStyle?: boolean;
+
+  /**
+   * Number of context lines around each change (`-x -U N`)
+   */
+  contextLines?: number;
+
+  /**
+   * Only diff paths in this changelist
+   */
+  changelist?: string;
+
+  /**
+   * Limit the operation to this depth
+   */
+  depth?: 'empty' | 'files' | 'immediates' | 'infinity';
+
+  /**
+   * Do not print differences for added files
+   */
+  noDiffAdded?: boolean;
+
+  /**
+   * Do not print differences for deleted files
+   */
+  noDiffDeleted?: boolean;
+
+  /**
+   * Ignore property changes
+   */
+  ignoreProperties?: boolean;
+
+  /**
+   * Show only property changes
+   */
+  propertiesOnly?: boolean;
+
+  /**
+   * Show copied files as added, diffing against an empty file instead of the copy source
+   */
+  showCopiesAsAdds?: boolean;
+}
+
+export interface SvnBlameOptions extends SvnOptions {
+  /**
+   * Revision to annotate (end of the revision range)
+   */
+  revision?: SvnRevision;
+
+  /**
+   * First revision to consider (start of the revision range)
+   */
+  startRevision?: SvnRevision;
+
+  /**
+   * Attribute merged lines to their original revision (--use-merge-history)
+   */
+  useMergeHistory?: boolean;
+
+  /**
+   * Ignore whitespace changes (-x -w)
+   */
+  ignoreWhitespace?: boolean;
+}
+
+export interface SvnPropListOptions extends SvnOptions {
+  /**
+   * Revision to read
+   */
+  revision?: SvnRevision;
+
+  /**
+   * Depth to descend
+   */
+  depth?: 'empty' | 'files' | 'immediates' | 'infinity';
+
+  /**
+   * Recursive (same as depth infinity)
+   */
+  recursive?: boolean;
+}
+
+export interface SvnPropGetOptions extends SvnOptions {
+  /**
+   * Revision to read
+   */
+  revision?: SvnRevision;
+}
+
+export interface SvnMergeinfoOptions extends SvnOptions {
+  /**
+   * Revisions to list: already merged into the target, or eligible for merging (default: merged)
+   */
+  showRevs?: 'merged' | 'eligible';
 }
 
 export interface SvnAddOptions extends SvnOptions {
@@ -189,7 +430,7 @@ export interface SvnCopyOptions extends SvnOptions {
   /**
    * Revision to copy
    */
-  revision?: string;
+  revision?: SvnRevision;
 
   /**
    * Commit message
@@ -231,155 +472,1214 @@ export interface SvnMkdirOptions extends SvnOptions {
   parents?: boolean;
 }
 
-export interface SvnStatusResult {
+export interface SvnPropSetOptions extends SvnOptions {
   /**
-   * File/directory path
+   * Commit message (required for URL targets)
    */
-  path: string;
+  message?: string;
 
   /**
-   * Status character (A: added, M: modified, D: deleted, ?: not versioned, !: missing, ~: obstructed, C: conflict, etc.)
+   * Depth to apply the property to (working copy targets)
    */
-  status: string;
+  depth?: 'empty' | 'files' | 'immediates' | 'infinity';
 
   /**
-   * Working copy revision
+   * Recursive (same as depth infinity)
    */
-  workingRevision?: string;
+  recursive?: boolean;
 
   /**
-   * Last changed revision
+   * Skip validation of svn:* property values
    */
-  lastChangedRevision?: string;
+  force?: boolean;
+}
 
+export interface SvnPropDelOptions extends SvnOptions {
   /**
-   * Last changed author
+   * Commit message (required for URL targets)
    */
-  lastChangedAuthor?: string;
+  message?: string;
 
   /**
-   * Last changed date
+   * Depth to delete the property at (working copy targets)
    */
-  lastChangedDate?: string;
+  depth?: 'empty' | 'files' | 'immediates' | 'infinity';
+
+  /**
+   * Recursive (same as depth infinity)
+   */
+  recursive?: boolean;
 }
 
-export interface SvnInfoResult {
+export interface SvnLockOptions extends SvnOptions {
   /**
-   * Path
+   * Lock comment
    */
-  path: string;
+  message?: string;
 
   /**
-   * Repository URL
+   * Steal the lock from another user or working copy
    */
-  url: string;
+  force?: boolean;
+}
 
+export interface SvnUnlockOptions extends SvnOptions {
   /**
-   * Relative URL
+   * Break a lock held by another user or working copy
    */
-  relativeUrl: string;
+  force?: boolean;
+}
 
+export interface SvnRevertOptions extends SvnOptions {
   /**
-   * Repository root
+   * Descend recursively
    */
-  repositoryRoot: string;
+  recursive?: boolean;
 
   /**
-   * Repository UUID
+   * Also delete added files and directories from disk (--remove-added, svn 1.14+)
    */
-  repositoryUuid: string;
+  removeAdded?: boolean;
+}
 
+export interface SvnCleanupOptions extends SvnOptions {
   /**
-   * Revision
+   * Remove unversioned files and directories
    */
-  revision: string;
+  removeUnversioned?: boolean;
 
   /**
-   * Node kind (file, dir, etc.)
+   * Remove ignored files and directories
    */
-  nodeKind: string;
+  removeIgnored?: boolean;
 
   /**
-   * Schedule (normal, add, delete, replace, etc.)
+   * Remove unreferenced pristine copies (svn 1.10+)
    */
-  schedule?: string;
+  vacuumPristines?: boolean;
 
   /**
-   * Last changed author
+   * Also clean up externals
    */
-  lastChangedAuthor?: string;
+  includeExternals?: boolean;
+}
 
+export interface SvnResolveOptions extends SvnOptions {
   /**
-   * Last changed revision
+   * Version to resolve the conflicts with
    */
-  lastChangedRev?: string;
+  accept: 'base' | 'working' | 'mine-conflict' | 'theirs-conflict' | 'mine-full' | 'theirs-full';
 
   /**
-   * Last changed date
+   * Descend recursively
    */
-  lastChangedDate?: string;
+  recursive?: boolean;
 }
 
-export interface SvnLogEntry {
+export interface SvnMergeOptions extends SvnOptions {
   /**
-   * Revision
+   * Revisions to merge: a revision number is merged as a change (-c, negative to reverse merge), a range ("N:M" or { start, end }) with -r
+   * Keywords and dates are only accepted inside a range
    */
-  revision: string;
+  revisions?: Array<number | `${number}` | SvnRevisionRange>;
 
   /**
-   * Author
+   * Reintegrate a branch (svn 1.7 and older servers; newer clients detect it automatically)
    */
-  author: string;
+  reintegrate?: boolean;
 
   /**
-   * Commit date
+   * Only record the merge in svn:mergeinfo, do not change files
    */
-  date: string;
+  recordOnly?: boolean;
 
   /**
-   * Commit message
+   * Report what would change without changing the working copy
    */
-  message: string;
+  dryRun?: boolean;
 
   /**
-   * Changed files
+   * Conflict resolution method
    */
-  paths?: Array<{
-    /**
-     * Change action (A: added, M: modified, D: deleted, etc.)
-     */
-    action: string;
+  accept?: 'postpone' | 'base' | 'mine-conflict' | 'theirs-conflict' | 'mine-full' | 'theirs-full' | 'working';
 
-    /**
-     * File path
-     */
-    path: string;
+  /**
+   * Ignore ancestry when calculating differences
+   */
+  ignoreAncestry?: boolean;
+}
 
-    /**
-     * File kind (file, dir, etc.)
-     */
-    kind?: string;
-  }>;
+export interface SvnSwitchOptions extends SvnOptions {
+  /**
+   * Revision to switch to
+   */
+  revision?: SvnRevision;
+
+  /**
+   * Limit the operation to this depth
+   */
+  depth?: 'empty' | 'files' | 'immediates' | 'infinity';
+
+  /**
+   * Allow switching to a URL that does not share ancestry with the working copy
+   */
+  ignoreAncestry?: boolean;
+
+  /**
+   * Conflict resolution method
+   */
+  accept?: 'postpone' | 'base' | 'mine-conflict' | 'theirs-conflict' | 'mine-full' | 'theirs-full' | 'working';
 }
 
-export interface SvnCommandResult {
+export interface SvnImportOptions extends SvnOptions {
   /**
-   * Operation success status
+   * Commit message (required)
    */
-  success: boolean;
+  message: string;
 
   /**
-   * Standard output
+   * Limit the operation to this depth
    */
-  stdout: string;
+  depth?: 'empty' | 'files' | 'immediates' | 'infinity';
 
   /**
-   * Standard error output
+   * Also import files matched by svn:ignore and global-ignores
    */
-  stderr: string;
+  noIgnore?: boolean;
 
   /**
-   * Exit code
+   * Import even if the tree contains unversionable items (e.g. special files)
    */
-  code?: number;
+  force?: boolean;
+
+  /**
+   * Revision properties to set on the new revision
+   */
+  revprops?: Record<string, string>;
+}
+
+export interface SvnRemoteTransactionOptions extends SvnOptions {
+  /**
+   * Revision the changes are based on; the commit fails if a changed path was modified after it
+   */
+  baseRevision?: number;
+
+  /**
+   * Revision properties to set on the new revision
+   */
+  revprops?: Record<string, string>;
+}
+
+export interface SvnStatusResult {
+  /**
+   * File/directory path
+   */
+  path: string;
+
+  /**
+   * Status character (A: added, M: modified, D: deleted, ?: not versioned, !: missing, ~: obstructed, C: conflict, etc.)
+   */
+  status: string;
+
+  /**
+   * Working copy revision
+   */
+  workingRevision?: string;
+
+  /**
+   * Last changed revision
+   */
+  lastChangedRevision?: string;
+
+  /**
+   * Last changed author
+   */
+  lastChangedAuthor?: string;
+
+  /**
+   * Last changed date
+   */
+  lastChangedDate?: string;
+
+  /**
+   * Lock owned by this working copy
+   */
+  lock?: SvnLockInfo;
+
+  /**
+   * Lock in the repository (reported with --show-updates, may belong to someone else)
+   */
+  repositoryLock?: SvnLockInfo;
+}
+
+export interface SvnInfoResult {
+  /**
+   * Path
+   */
+  path: string;
+
+  /**
+   * Repository URL
+   */
+  url: string;
+
+  /**
+   * Relative URL
+   */
+  relativeUrl: string;
+
+  /**
+   * Repository root
+   */
+  repositoryRoot: string;
+
+  /**
+   * Repository UUID
+   */
+  repositoryUuid: string;
+
+  /**
+   * Revision
+   */
+  revision: string;
+
+  /**
+   * Node kind (file, dir, etc.)
+   */
+  nodeKind: string;
+
+  /**
+   * Schedule (normal, add, delete, replace, etc.)
+   */
+  schedule?: string;
+
+  /**
+   * Last changed author
+   */
+  lastChangedAuthor?: string;
+
+  /**
+   * Last changed revision
+   */
+  lastChangedRev?: string;
+
+  /**
+   * Last changed date
+   */
+  lastChangedDate?: string;
+
+  /**
+   * Working copy root path (working copy targets only)
+   */
+  workingCopyRoot?: string;
+
+  /**
+   * Working copy depth (working copy targets only)
+   */
+  depth?: string;
+
+  /**
+   * SHA-1 checksum of the pristine text (working copy files only)
+   */
+  checksum?: string;
+
+  /**
+   * Last time the working file text was updated
+   */
+  textUpdated?: string;
+
+  /**
+   * Last time the working properties were updated (only reported by old clients)
+   */
+  propUpdated?: string;
+
+  /**
+   * Changelist the path belongs to
+   */
+  changelist?: string;
+
+  /**
+   * Copy source URL (scheduled copies)
+   */
+  copyFromUrl?: string;
+
+  /**
+   * Copy source revision (scheduled copies)
+   */
+  copyFromRev?: string;
+
+  /**
+   * Path this node was moved from
+   */
+  movedFrom?: string;
+
+  /**
+   * Path this node was moved to
+   */
+  movedTo?: string;
+
+  /**
+   * File size in the repository in bytes (URL file targets only)
+   */
+  size?: number;
+
+  /**
+   * Repository lock
+   */
+  lock?: SvnLockInfo;
+
+  /**
+   * Text, property and tree conflicts
+   */
+  conflicts?: SvnConflictInfo[];
+}
+
+export interface SvnLockInfo {
+  /**
+   * Lock token
+   */
+  token: string;
+
+  /**
+   * Lock owner
+   */
+  owner: string;
+
+  /**
+   * Lock comment
+   */
+  comment?: string;
+
+  /**
+   * Lock creation date
+   */
+  created?: string;
+
+  /**
+   * Lock expiration date
+   */
+  expires?: string;
+}
+
+export interface SvnConflictVersion {
+  /**
+   * Version side (source-left, source-right)
+   */
+  side: string;
+
+  /**
+   * Node kind
+   */
+  kind?: string;
+
+  /**
+   * Path in repository
+   */
+  pathInRepos?: string;
+
+  /**
+   * Repository URL
+   */
+  reposUrl?: string;
+
+  /**
+   * Revision
+   */
+  revision?: string;
+}
+
+export interface SvnConflictInfo {
+  /**
+   * Conflict type
+   */
+  type: 'text' | 'property' | 'tree';
+
+  /**
+   * Conflict victim (tree conflicts)
+   */
+  victim?: string;
+
+  /**
+   * Victim node kind (tree conflicts)
+   */
+  kind?: string;
+
+  /**
+   * Operation that raised the conflict (update, switch, merge)
+   */
+  operation?: string;
+
+  /**
+   * Incoming action (tree conflicts, e.g. edit, delete, add)
+   */
+  action?: string;
+
+  /**
+   * Local state (tree conflicts, e.g. edit, delete, missing)
+   */
+  reason?: string;
+
+  /**
+   * Base file before the operation (text conflicts)
+   */
+  prevBaseFile?: string;
+
+  /**
+   * Working file before the operation (text conflicts)
+   */
+  prevWcFile?: string;
+
+  /**
+   * Incoming base file (text conflicts)
+   */
+  curBaseFile?: string;
+
+  /**
+   * Property reject file (property conflicts)
+   */
+  propFile?: string;
+
+  /**
+   * Left and right versions involved in the conflict
+   */
+  versions: SvnConflictVersion[];
+}
+
+export interface SvnListEntry {
+  /**
+   * Entry path relative to the listed target
+   */
+  name: string;
+
+  /**
+   * Listed target (path or URL) the entry belongs to
+   */
+  target: string;
+
+  /**
+   * Node kind (file, dir)
+   */
+  kind: string;
+
+  /**
+   * File size in bytes (files only)
+   */
+  size?: number;
+
+  /**
+   * Last changed revision
+   */
+  lastChangedRevision?: string;
+
+  /**
+   * Last changed author
+   */
+  lastChangedAuthor?: string;
+
+  /**
+   * Last changed date
+   */
+  lastChangedDate?: string;
+
+  /**
+   * Repository lock
+   */
+  lock?: SvnLockInfo;
+
+  /**
+   * URL of the directory defining the external (externals only)
+   */
+  externalParentUrl?: string;
+
+  /**
+   * Target of the externals definition (externals only)
+   */
+  externalTarget?: string;
+}
+
+export interface SvnBlameLine {
+  /**
+   * Line number (1-based)
+   */
+  lineNumber: number;
+
+  /**
+   * Line text without the line ending
+   */
+  text: string;
+
+  /**
+   * Revision that last changed the line (missing for local modifications)
+   */
+  revision?: string;
+
+  /**
+   * Author of that revision
+   */
+  author?: string;
+
+  /**
+   * Date of that revision
+   */
+  date?: string;
+
+  /**
+   * Original change when the line came in through a merge (useMergeHistory only)
+   */
+  merged?: {
+    /**
+     * Merge source path
+     */
+    path: string;
+
+    /**
+     * Original revision
+     */
+    revision?: string;
+
+    /**
+     * Original author
+     */
+    author?: string;
+
+    /**
+     * Original date
+     */
+    date?: string;
+  };
+}
+
+export interface SvnPropertyTarget {
+  /**
+   * Path or URL the properties belong to
+   */
+  path: string;
+
+  /**
+   * Property values by name (base64 encoded values are decoded as UTF-8, which is lossy for binary values)
+   */
+  properties: Record<string, string>;
+
+  /**
+   * Exact bytes of the base64 encoded (binary) property values by name, only present when there are any
+   */
+  binaryProperties?: Record<string, Buffer>;
+}
+
+export interface SvnCatResult {
+  /**
+   * File content, byte for byte as svn wrote it (line endings translated according to svn:eol-style)
+   */
+  content: Buffer;
+
+  /**
+   * Value of svn:mime-type
+   */
+  mimeType?: string;
+
+  /**
+   * Value of svn:eol-style
+   */
+  eolStyle?: string;
+
+  /**
+   * Whether svn treats the file as binary (svn:mime-type set to a non-text type)
+   */
+  binary: boolean;
+
+  /**
+   * Content decoded as UTF-8 (only for text files)
+   */
+  text?: string;
+}
+
+export interface SvnLogEntry {
+  /**
+   * Revision
+   */
+  revision: string;
+
+  /**
+   * Author
+   */
+  author: string;
+
+  /**
+   * Commit date
+   */
+  date: string;
+
+  /**
+   * Commit message
+   */
+  message: string;
+
+  /**
+   * Revision properties (withRevprops/withAllRevprops only, includes svn:author, svn:date and svn:log when retrieved)
+   */
+  revprops?: Record<string, string>;
+
+  /**
+   * Exact bytes of the base64 encoded (binary) revision properties by name, only present when there are any
+   */
+  binaryRevprops?: Record<string, Buffer>;
+
+  /**
+   * Changed files (verbose only)
+   */
+  paths?: SvnLogPath[];
+
+  /**
+   * Revisions merged by this revision (useMergeHistory only)
+   */
+  children?: SvnLogEntry[];
+
+  /**
+   * Set on merged revisions: the merge was a reverse merge (useMergeHistory only)
+   */
+  reverseMerge?: boolean;
+}
+
+export interface SvnLogPath {
+  /**
+   * Change action (A: added, M: modified, D: deleted, R: replaced)
+   */
+  action: string;
+
+  /**
+   * Repository path
+   */
+  path: string;
+
+  /**
+   * Node kind (file, dir, etc.)
+   */
+  kind?: string;
+
+  /**
+   * The content was modified
+   */
+  textMods?: boolean;
+
+  /**
+   * Properties were modified
+   */
+  propMods?: boolean;
+
+  /**
+   * Copy source path of added or replaced paths
+   */
+  copyFromPath?: string;
+
+  /**
+   * Copy source revision
+   */
+  copyFromRevision?: string;
+}
+
+export interface SvnCommandResult {
+  /**
+   * Operation success status
+   */
+  success: boolean;
+
+  /**
+   * Standard output
+   */
+  stdout: string;
+
+  /**
+   * Standard error output
+   */
+  stderr: string;
+
+  /**
+   * Exit code
+   */
+  code?: number;
+
+  /**
+   * Command was cancelled through the abort signal
+   */
+  cancelled?: boolean;
+
+  /**
+   * Command was killed because it exceeded timeoutMs
+   */
+  timedOut?: boolean;
+
+  /**
+   * Typed error parsed from stderr (set when success is false)
+   */
+  error?: SvnError;
+}
+
+export interface SvnAffectedPath {
+  /**
+   * Working copy path
+   */
+  path: string;
+
+  /**
+   * What happened to the path
+   */
+  action: 'reverted' | 'removed' | 'resolved' | 'skipped' | 'external';
+
+  /**
+   * Resolved conflict kind (resolve only, when reported by svn)
+   */
+  conflict?: 'text' | 'property' | 'tree';
+
+  /**
+   * Resolved property name (property conflicts only)
+   */
+  property?: string;
+}
+
+export interface SvnAffectedPathsResult extends SvnCommandResult {
+  /**
+   * Paths reported by svn, in output order
+   */
+  paths: SvnAffectedPath[];
+}
+
+export interface SvnUpdatedPath {
+  /**
+   * Working copy path
+   */
+  path: string;
+
+  /**
+   * Text action (A: added, D: deleted, U: updated, C: conflicted, G: merged, E: existed, R: replaced)
+   */
+  textAction?: string;
+
+  /**
+   * Property action (U: updated, C: conflicted, G: merged)
+   */
+  propAction?: string;
+
+  /**
+   * A lock was broken or stolen
+   */
+  lockBroken?: boolean;
+
+  /**
+   * The path is tree-conflicted
+   */
+  treeConflict?: boolean;
+
+  /**
+   * External directory the path belongs to
+   */
+  external?: string;
+}
+
+export interface SvnUpdateTarget {
+  /**
+   * Updated target (working copy path)
+   */
+  path: string;
+
+  /**
+   * Revision the target is at after the operation
+   */
+  revision: number;
+}
+
+export interface SvnUpdateConflict {
+  /**
+   * Conflicted path
+   */
+  path: string;
+
+  /**
+   * Conflict kind
+   */
+  kind: 'text' | 'property' | 'tree';
+}
+
+export interface SvnUpdateResult extends SvnCommandResult {
+  /**
+   * Changed paths in output order
+   */
+  paths: SvnUpdatedPath[];
+
+  /**
+   * Final revision (of the last target)
+   */
+  revision?: number;
+
+  /**
+   * Resulting revision per target
+   */
+  targets: SvnUpdateTarget[];
+
+  /**
+   * Externals fetched during the operation
+   */
+  externals: Array<{
+    /**
+     * External directory
+     */
+    path: string;
+
+    /**
+     * Revision the external is at
+     */
+    revision?: number;
+  }>;
+
+  /**
+   * Conflicts raised by the operation
+   */
+  conflicts: SvnUpdateConflict[];
+}
+
+export interface SvnCommittedPath {
+  /**
+   * Working copy path (or URL for URL operations)
+   */
+  path: string;
+
+  /**
+   * Change sent to the repository
+   */
+  action: 'added' | 'sent' | 'deleted' | 'replaced';
+
+  /**
+   * Added as binary file (svn prints "(bin)")
+   */
+  binary?: boolean;
+}
+
+export interface SvnCommitResult extends SvnCommandResult {
+  /**
+   * Committed revision (undefined when nothing was committed, e.g. no changes or working copy copy/move/mkdir)
+   */
+  revision?: number;
+
+  /**
+   * Committed paths in output order
+   */
+  paths: SvnCommittedPath[];
+
+  /**
+   * Warnings reported after the commit succeeded (e.g. failed post-commit hook with its output)
+   */
+  warnings: string[];
+}
+
+export interface SvnRemoteOperation {
+  /**
+   * svnmucc action
+   */
+  action: 'put' | 'mkdir' | 'cp' | 'mv' | 'rm' | 'propset' | 'propdel';
+
+  /**
+   * Target path (relative to repositoryUrl) or URL
+   */
+  path: string;
+
+  /**
+   * Copy or move source path (relative to repositoryUrl) or URL
+   */
+  source?: string;
+
+  /**
+   * Copy source revision (default: HEAD)
+   */
+  revision?: SvnRevision;
+
+  /**
+   * Property name (propset, propdel)
+   */
+  name?: string;
+
+  /**
+   * File content (put) or property value (propset)
+   */
+  content?: string | Buffer | Readable;
+}
+
+export interface SvnDiffSummary {
+  /**
+   * Changed path or URL
+   */
+  path: string;
+
+  /**
+   * Content change
+   */
+  item: 'added' | 'deleted' | 'modified' | 'none';
+
+  /**
+   * Property change
+   */
+  props: 'modified' | 'none';
+
+  /**
+   * Node kind
+   */
+  kind: 'file' | 'dir';
+}
+
+export interface SvnDiffLine {
+  /**
+   * Line kind
+   */
+  type: 'context' | 'added' | 'deleted';
+
+  /**
+   * Line text without the leading marker
+   */
+  content: string;
+
+  /**
+   * Line number in the old file (context and deleted lines)
+   */
+  oldLineNumber?: number;
+
+  /**
+   * Line number in the new file (context and added lines)
+   */
+  newLineNumber?: number;
+
+  /**
+   * The line is the last line and has no trailing newline ("\ No newline at end of file")
+   */
+  noNewlineAtEnd?: boolean;
+}
+
+export interface SvnDiffHunk {
+  /**
+   * First line of the hunk in the old file
+   */
+  oldStart: number;
+
+  /**
+   * Number of old file lines in the hunk
+   */
+  oldLines: number;
+
+  /**
+   * First line of the hunk in the new file
+   */
+  newStart: number;
+
+  /**
+   * Number of new file lines in the hunk
+   */
+  newLines: number;
+
+  /**
+   * Text after the closing @@ (e.g. the enclosing function with --show-c-function)
+   */
+  heading?: string;
+
+  /**
+   * Number of added lines
+   */
+  additions: number;
+
+  /**
+   * Number of deleted lines
+   */
+  deletions: number;
+
+  /**
+   * Lines in order
+   */
+  lines: SvnDiffLine[];
+}
+
+export interface SvnDiffPropertyChange {
+  /**
+   * Property name
+   */
+  name: string;
+
+  /**
+   * Change to the property
+   */
+  action: 'added' | 'deleted' | 'modified';
+
+  /**
+   * Changes of the property value
+   */
+  hunks: SvnDiffHunk[];
+}
+
+export interface SvnDiffFile {
+  /**
+   * Path from the "Index:" header (or the new path for plain git diffs)
+   */
+  path: string;
+
+  /**
+   * Path on the old side
+   */
+  oldPath?: string;
+
+  /**
+   * Path on the new side
+   */
+  newPath?: string;
+
+  /**
+   * Revision of the old side (undefined for working copy or nonexistent)
+   */
+  oldRevision?: number;
+
+  /**
+   * Revision of the new side (undefined for working copy or nonexistent)
+   */
+  newRevision?: number;
+
+  /**
+   * Label of the old side as printed by svn (e.g. "revision 3", "working copy", "nonexistent")
+   */
+  oldLabel?: string;
+
+  /**
+   * Label of the new side as printed by svn
+   */
+  newLabel?: string;
+
+  /**
+   * Source of a copy (git format)
+   */
+  copyFrom?: string;
+
+  /**
+   * Source of a rename (git format)
+   */
+  renameFrom?: string;
+
+  /**
+   * File was added
+   */
+  added: boolean;
+
+  /**
+   * File was deleted
+   */
+  deleted: boolean;
+
+  /**
+   * Content of an existing file changed
+   */
+  modified: boolean;
+
+  /**
+   * Versioned properties changed
+   */
+  propertiesChanged: boolean;
+
+  /**
+   * Content is binary and not shown
+   */
+  binary: boolean;
+
+  /**
+   * Value of svn:mime-type reported for binary files
+   */
+  mimeType?: string;
+
+  /**
+   * Number of added lines over all hunks
+   */
+  additions: number;
+
+  /**
+   * Number of deleted lines over all hunks
+   */
+  deletions: number;
+
+  /**
+   * Content changes
+   */
+  hunks: SvnDiffHunk[];
+
+  /**
+   * Property changes
+   */
+  properties: SvnDiffPropertyChange[];
+}
+
+export interface SvnDiffSegment {
+  /**
+   * Text of the segment
+   */
+  text: string;
+
+  /**
+   * The segment differs from the other side of a modified line
+   */
+  changed: boolean;
+}
+
+export interface SvnSideBySideCell {
+  /**
+   * Line number on this side
+   */
+  lineNumber: number;
+
+  /**
+   * Line text
+   */
+  content: string;
+
+  /**
+   * Line text split into unchanged and changed (word-level) segments
+   */
+  segments: SvnDiffSegment[];
+
+  /**
+   * The line has no trailing newline
+   */
+  noNewlineAtEnd?: boolean;
+}
+
+export interface SvnSideBySideRow {
+  /**
+   * Row kind: a deleted line paired with an added line is "modified"
+   */
+  type: 'context' | 'added' | 'deleted' | 'modified';
+
+  /**
+   * Old side (missing for added lines)
+   */
+  left?: SvnSideBySideCell;
+
+  /**
+   * New side (missing for deleted lines)
+   */
+  right?: SvnSideBySideCell;
+}
+
+export interface SvnSideBySideHunk extends Omit<SvnDiffHunk, 'lines'> {
+  /**
+   * Rows in order
+   */
+  rows: SvnSideBySideRow[];
+}
+
+export interface SvnSideBySideProperty extends Omit<SvnDiffPropertyChange, 'hunks'> {
+  /**
+   * Changes of the property value
+   */
+  hunks: SvnSideBySideHunk[];
+}
+
+export interface SvnSideBySideFile extends Omit<SvnDiffFile, 'hunks' | 'properties'> {
+  /**
+   * Content changes as side-by-side rows
+   */
+  hunks: SvnSideBySideHunk[];
+
+  /**
+   * Property changes as side-by-side rows
+   */
+  properties: SvnSideBySideProperty[];
 }
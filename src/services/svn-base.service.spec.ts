@@ -4,6 +4,10 @@ import { SvnWriteService } from './svn-write.service';
 import { join } from 'path';
 import { promises as fs } from 'fs';
 import { rmSync, mkdirSync } from 'fs';
+import { spawn } from 'child_process';
+import { Readable } from 'stream';
+import { SvnCancelledError, SvnNotWorkingCopyError, SvnPathNotFoundError, SvnTimeoutError } from '../errors/svn.error';
+import type { XmlElement } from '../utils/xml-parser';
 
 describe('SvnBaseService Path Handling', () => {
   let readService: SvnReadService;
@@ -28,8 +32,8 @@ describe('SvnBaseService Path Handling', () => {
     }
   });
 
-  describe('resolvePath and escapeShellArg', () => {
-    describe('Platform-specific escaping', () => {
+  describe('resolvePath and argument vector', () => {
+    describe('Platform independence', () => {
       const originalPlatform = process.platform;
 
       afterEach(() => {
@@ -40,84 +44,19 @@ describe('SvnBaseService Path Handling', () => {
         });
       });
 
-      describe('Unix/Linux/macOS (single quotes)', () => {
-        beforeEach(() => {
+      ['linux', 'darwin', 'win32'].forEach((platform) => {
+        it(`should pass arguments verbatim on ${platform}`, () => {
           Object.defineProperty(process, 'platform', {
-            value: 'linux',
+            value: platform,
             writable: true,
             configurable: true,
           });
-        });
-
-        it('should escape paths with spaces using single quotes', () => {
-          const testCases = [
-            { path: 'path with spaces', expected: "'path with spaces'" },
-            { path: '/path/to/file with spaces.txt', expected: "'/path/to/file with spaces.txt'" },
-          ];
-
-          testCases.forEach(({ path, expected }) => {
-            const result = (readService as any).escapeShellArg(path);
-            expect(result).toBe(expected);
-          });
-        });
 
-        it('should escape paths with single quotes correctly', () => {
-          const testCases = [
-            { path: "Genie's Dream", expected: "'Genie'\\''s Dream'" },
-            { path: "It's a test's path", expected: "'It'\\''s a test'\\''s path'" },
-          ];
+          const testCases = ['path with spaces', "Genie's Dream", 'path with "quotes"', 'path$with$dollar', 'path`with`backtick'];
 
-          testCases.forEach(({ path, expected }) => {
-            const result = (readService as any).escapeShellArg(path);
-            expect(result).toBe(expected);
-          });
-        });
-      });
-
-      describe('Windows (double quotes)', () => {
-        beforeEach(() => {
-          Object.defineProperty(process, 'platform', {
-            value: 'win32',
-            writable: true,
-            configurable: true,
-          });
-        });
-
-        it('should escape paths with spaces using double quotes', () => {
-          const testCases = [
-            { path: 'path with spaces', expected: '"path with spaces"' },
-            { path: 'C:\\Users\\Name\\file with spaces.txt', expected: '"C:\\Users\\Name\\file with spaces.txt"' },
-          ];
-
-          testCases.forEach(({ path, expected }) => {
-            const result = (readService as any).escapeShellArg(path);
-            expect(result).toBe(expected);
-          });
-        });
-
-        it('should escape paths with double quotes correctly', () => {
-          const testCases = [
-            { path: 'path with "quotes"', expected: '"path with \\"quotes\\""' },
-            // Windows: backslashes before quotes need to be escaped
-            { path: 'C:\\Users\\"Name"\\file.txt', expected: '"C:\\Users\\\\"Name\\"\\file.txt"' },
-          ];
-
-          testCases.forEach(({ path, expected }) => {
-            const result = (readService as any).escapeShellArg(path);
-            expect(result).toBe(expected);
-          });
-        });
-
-        it('should handle Windows paths correctly', () => {
-          const testCases = [
-            { path: 'C:\\Users\\Name\\file.txt', expected: '"C:\\Users\\Name\\file.txt"' },
-            { path: 'C:\\Users\\Name\\file with spaces.txt', expected: '"C:\\Users\\Name\\file with spaces.txt"' },
-            { path: '\\\\server\\share\\file.txt', expected: '"\\\\server\\share\\file.txt"' },
-          ];
-
-          testCases.forEach(({ path, expected }) => {
-            const result = (readService as any).escapeShellArg(path);
-            expect(result).toBe(expected);
+          testCases.forEach((testPath) => {
+            const [args] = (readService as any).buildSvnArgs('list', [testPath], {});
+            expect(args[args.length - 1]).toBe(testPath);
           });
         });
       });
@@ -152,346 +91,423 @@ describe('SvnBaseService Path Handling', () => {
       });
     });
 
-    it('should escape simple paths correctly (no escaping needed)', () => {
+    it('should pass paths with special characters without shell quoting', () => {
       const testCases = [
-        { path: 'simple-path', expected: 'simple-path' },
-        { path: 'my-project-name', expected: 'my-project-name' },
-        { path: 'my_project_name', expected: 'my_project_name' },
-        { path: 'file.name.txt', expected: 'file.name.txt' },
-        { path: '/usr/local/bin/file.txt', expected: '/usr/local/bin/file.txt' },
-        { path: './src/file.ts', expected: './src/file.ts' },
-        { path: 'path=with=equals', expected: 'path=with=equals' },
-        { path: 'path@with@at', expected: 'path@with@at' },
-        { path: 'https://example.com/path', expected: 'https://example.com/path' },
-        { path: 'file:///path/to/repo', expected: 'file:///path/to/repo' },
-        { path: 'https://example.com:8080/path', expected: 'https://example.com:8080/path' },
-        { path: 'path%20with%20spaces', expected: 'path%20with%20spaces' },
-        { path: '', expected: '' },
-        { path: 'a'.repeat(1000), expected: 'a'.repeat(1000) },
+        'simple-path',
+        'path  with   multiple    spaces',
+        "It's a test's path",
+        "'start with quote",
+        "end with quote'",
+        'path & special',
+        'path!special',
+        'path (with) parentheses',
+        'path [with] brackets',
+        'path {with} braces',
+        'path*with*asterisk',
+        'path?with?question',
+        'path#with#hash',
+        'path|with|pipe',
+        'path;with;semicolon',
+        'path~with~tilde',
+        '한글/경로/파일.txt',
+        '中文/路径/文件.txt',
+        'path/with/😀/emoji',
+        'Café/München',
+        'path\nwith\nnewline',
+        'path\twith\ttab',
       ];
 
-      testCases.forEach(({ path, expected }) => {
-        const result = (readService as any).escapeShellArg(path);
-        expect(result).toBe(expected);
-      });
-    });
-
-    it('should escape paths with spaces correctly', () => {
-      const isWindows = process.platform === 'win32';
-      const testCases = isWindows
-        ? [
-            { path: 'path with spaces', expected: '"path with spaces"' },
-            { path: 'path  with   multiple    spaces', expected: '"path  with   multiple    spaces"' },
-            { path: ' path with spaces ', expected: '" path with spaces "' },
-            { path: '/path/to/file with spaces.txt', expected: '"/path/to/file with spaces.txt"' },
-            { path: '   ', expected: '"   "' },
-          ]
-        : [
-            { path: 'path with spaces', expected: "'path with spaces'" },
-            { path: 'path  with   multiple    spaces', expected: "'path  with   multiple    spaces'" },
-            { path: ' path with spaces ', expected: "' path with spaces '" },
-            { path: '/path/to/file with spaces.txt', expected: "'/path/to/file with spaces.txt'" },
-            { path: '   ', expected: "'   '" },
-          ];
-
-      testCases.forEach(({ path, expected }) => {
-        const result = (readService as any).escapeShellArg(path);
-        expect(result).toBe(expected);
-      });
-    });
-
-    it('should escape paths with quotes correctly', () => {
-      const isWindows = process.platform === 'win32';
-      const testCases = isWindows
-        ? [
-            { path: "Genie's Dream", expected: '"Genie\'s Dream"' },
-            { path: "It's a test's path", expected: '"It\'s a test\'s path"' },
-            { path: 'path with "quotes"', expected: '"path with \\"quotes\\""' },
-            { path: 'C:\\Users\\"Name"\\file.txt', expected: '"C:\\Users\\"Name"\\file.txt"' },
-          ]
-        : [
-            { path: "Genie's Dream", expected: "'Genie'\\''s Dream'" },
-            { path: "It's a test's path", expected: "'It'\\''s a test'\\''s path'" },
-            { path: "'start with quote", expected: "''\\''start with quote'" },
-            { path: "end with quote'", expected: "'end with quote'\\'''" },
-            { path: "''", expected: "''\\'''\\'''" },
-            { path: "/path/to/file's name.txt", expected: "'/path/to/file'\\''s name.txt'" },
-            { path: "https://example.com/repo/Genie's Dream/Mobile", expected: "'https://example.com/repo/Genie'\\''s Dream/Mobile'" },
-          ];
-
-      testCases.forEach(({ path, expected }) => {
-        const result = (readService as any).escapeShellArg(path);
-        expect(result).toBe(expected);
+      testCases.forEach((testPath) => {
+        const [args] = (readService as any).buildSvnArgs('cat', [testPath], {});
+        expect(args[args.length - 1]).toBe(testPath);
       });
     });
 
-    it('should escape file paths with special characters correctly', () => {
-      const isWindows = process.platform === 'win32';
-      const testCases = isWindows
-        ? [
-            { path: '/path/to/file(name).txt', expected: '"/path/to/file(name).txt"' },
-            { path: 'C:\\Users\\Name\\file.txt', expected: 'C:\\Users\\Name\\file.txt' },
-            { path: 'C:\\Users\\Name\\file(name).txt', expected: '"C:\\Users\\Name\\file(name).txt"' },
-          ]
-        : [
-            { path: '/path/to/file(name).txt', expected: "'/path/to/file(name).txt'" },
-            { path: 'C:\\Users\\Name\\file.txt', expected: "'C:\\Users\\Name\\file.txt'" },
-          ];
-
-      testCases.forEach(({ path, expected }) => {
-        const result = (readService as any).escapeShellArg(path);
-        expect(result).toBe(expected);
+    it('should keep option values untouched', () => {
+      const message = 'Fix "quotes", $HOME, `whoami` and\nnewlines';
+      const [args] = (writeService as any).buildSvnArgs('commit', ['--message', message, '--depth', 'infinity', 'file.txt'], {
+        repositoryUrl: 'https://example.com/repo',
       });
-    });
 
-    it('should escape paths with special characters correctly', () => {
-      const isWindows = process.platform === 'win32';
-      const quote = isWindows ? '"' : "'";
-      const testCases = [
-        { path: 'path & special', expected: `${quote}path & special${quote}` },
-        { path: 'path!special', expected: `${quote}path!special${quote}` },
-        { path: 'path (with) parentheses', expected: `${quote}path (with) parentheses${quote}` },
-        { path: 'path [with] brackets', expected: `${quote}path [with] brackets${quote}` },
-        { path: 'path {with} braces', expected: `${quote}path {with} braces${quote}` },
-        { path: 'path*with*asterisk', expected: `${quote}path*with*asterisk${quote}` },
-        { path: 'path?with?question', expected: `${quote}path?with?question${quote}` },
-        { path: 'path#with#hash', expected: `${quote}path#with#hash${quote}` },
-        { path: 'path+with+plus', expected: `${quote}path+with+plus${quote}` },
-        { path: 'path|with|pipe', expected: `${quote}path|with|pipe${quote}` },
-        { path: 'path;with;semicolon', expected: `${quote}path;with;semicolon${quote}` },
-        { path: 'path`with`backtick', expected: `${quote}path\`with\`backtick${quote}` },
-        { path: 'path$with$dollar', expected: `${quote}path$with$dollar${quote}` },
-        { path: 'path~with~tilde', expected: `${quote}path~with~tilde${quote}` },
-      ];
-
-      testCases.forEach(({ path, expected }) => {
-        const result = (readService as any).escapeShellArg(path);
-        expect(result).toBe(expected);
-      });
+      expect(args).toContain(message);
+      expect(args[args.indexOf('--message') + 1]).toBe(message);
+      expect(args[args.indexOf('--depth') + 1]).toBe('infinity');
+      expect(args).toContain('https://example.com/repo/file.txt');
     });
 
-    it('should escape URLs with special characters correctly', () => {
-      const isWindows = process.platform === 'win32';
-      const quote = isWindows ? '"' : "'";
-      const testCases = [{ path: 'https://example.com/path?param=value', expected: `${quote}https://example.com/path?param=value${quote}` }];
+    it('should pass password verbatim and mask it in debug output', () => {
+      const password = 'pa$$ \'word"`';
+      const [args] = (readService as any).buildSvnArgs('info', [], { password });
 
-      testCases.forEach(({ path, expected }) => {
-        const result = (readService as any).escapeShellArg(path);
-        expect(result).toBe(expected);
-      });
+      expect(args[args.indexOf('--password') + 1]).toBe(password);
+      expect((readService as any).formatCommandForLog(args)).not.toContain(password);
     });
+  });
 
-    it('should escape paths with unicode characters correctly', () => {
-      const isWindows = process.platform === 'win32';
-      const quote = isWindows ? '"' : "'";
-      const testCases = [
-        { path: '한글/경로/파일.txt', expected: `${quote}한글/경로/파일.txt${quote}` },
-        { path: '中文/路径/文件.txt', expected: `${quote}中文/路径/文件.txt${quote}` },
-        { path: '日本語/パス/ファイル.txt', expected: `${quote}日本語/パス/ファイル.txt${quote}` },
-        { path: 'path/with/😀/emoji', expected: `${quote}path/with/😀/emoji${quote}` },
-        { path: '86_MjölnirJackpot', expected: `${quote}86_MjölnirJackpot${quote}` },
-        { path: 'path/with/äöü', expected: `${quote}path/with/äöü${quote}` },
-        { path: 'Åland/Islands', expected: `${quote}Åland/Islands${quote}` },
-        { path: 'Café/München', expected: `${quote}Café/München${quote}` },
-      ];
-
-      testCases.forEach(({ path, expected }) => {
-        const result = (readService as any).escapeShellArg(path);
-        expect(result).toBe(expected);
+  describe('buildSvnArgs with path arrays', () => {
+    describe('single path', () => {
+      it('should return the command as first argument', () => {
+        const [args] = (readService as any).buildSvnArgs('list', ['path with spaces'], {});
+        expect(Array.isArray(args)).toBe(true);
+        expect(args[0]).toBe('list');
+        expect(args).toContain('--non-interactive');
       });
-    });
 
-    it('should escape edge case paths correctly', () => {
-      const isWindows = process.platform === 'win32';
-      const quote = isWindows ? '"' : "'";
-      const testCases = [
-        { path: 'path\nwith\nnewline', expected: `${quote}path\nwith\nnewline${quote}` },
-        { path: 'path\twith\ttab', expected: `${quote}path\twith\ttab${quote}` },
-      ];
-
-      testCases.forEach(({ path, expected }) => {
-        const result = (readService as any).escapeShellArg(path);
-        expect(result).toBe(expected);
+      it('should keep path with spaces as a single argument', () => {
+        const [args] = (readService as any).buildSvnArgs('list', ['path with spaces'], {});
+        expect(args).toContain('path with spaces');
       });
-    });
-  });
 
-  describe('buildSvnArgs with path arrays', () => {
-    describe('single path', () => {
-      it('should escape path with spaces in command', () => {
-        const isWindows = process.platform === 'win32';
-        const quote = isWindows ? '"' : "'";
-        const [command] = (readService as any).buildSvnArgs('list', ['path with spaces'], {});
-        expect(command).toContain(`${quote}path with spaces${quote}`);
-      });
-
-      it('should escape path with quotes in command', () => {
-        const isWindows = process.platform === 'win32';
-        const [command] = (readService as any).buildSvnArgs('list', ["Genie's Dream"], {});
-        if (isWindows) {
-          expect(command).toContain('"Genie\'s Dream"');
-        } else {
-          expect(command).toContain("'Genie'\\''s Dream'");
-        }
+      it('should keep path with quotes as a single argument', () => {
+        const [args] = (readService as any).buildSvnArgs('list', ["Genie's Dream"], {});
+        expect(args).toContain("Genie's Dream");
       });
 
-      it('should escape URL with special characters', () => {
-        const isWindows = process.platform === 'win32';
-        const quote = isWindows ? '"' : "'";
+      it('should encode URL with special characters', () => {
         const url = "https://example.com/repo/Genie's Dream/Mobile";
-        const [command] = (readService as any).buildSvnArgs('list', [url], {});
-        if (isWindows) {
-          expect(command).toContain('"https://example.com/repo/Genie\'s%20Dream/Mobile"');
-        } else {
-          expect(command).toContain("'https://example.com/repo/Genie'\\''s%20Dream/Mobile'");
-        }
+        const [args] = (readService as any).buildSvnArgs('list', [url], {});
+        expect(args).toContain("https://example.com/repo/Genie's%20Dream/Mobile");
       });
 
       it('should handle file path with spaces', () => {
-        const isWindows = process.platform === 'win32';
-        const quote = isWindows ? '"' : "'";
         const path = '/path/to/file with spaces.txt';
-        const [command] = (readService as any).buildSvnArgs('cat', [path], {});
-        expect(command).toContain(`${quote}/path/to/file with spaces.txt${quote}`);
+        const [args] = (readService as any).buildSvnArgs('cat', [path], {});
+        expect(args).toContain('/path/to/file with spaces.txt');
       });
 
       it('should handle Korean path', () => {
-        const isWindows = process.platform === 'win32';
-        const quote = isWindows ? '"' : "'";
         const path = '한글/경로/파일.txt';
-        const [command] = (readService as any).buildSvnArgs('list', [path], {});
-        expect(command).toContain(`${quote}${path}${quote}`);
+        const [args] = (readService as any).buildSvnArgs('list', [path], {});
+        expect(args).toContain(path);
       });
     });
 
     describe('multiple paths', () => {
       it('should handle multiple paths with special characters', () => {
-        const isWindows = process.platform === 'win32';
-        const quote = isWindows ? '"' : "'";
         const paths = ['path with spaces', "another'path"];
-        const [command] = (readService as any).buildSvnArgs('diff', paths, {});
-        expect(command).toContain(`${quote}path with spaces${quote}`);
-        if (isWindows) {
-          expect(command).toContain('"another\'path"');
-        } else {
-          expect(command).toContain("'another'\\''path'");
-        }
+        const [args] = (readService as any).buildSvnArgs('diff', paths, {});
+        expect(args).toContain('path with spaces');
+        expect(args).toContain("another'path");
       });
 
       it('should handle multiple file paths', () => {
         const paths = ['/path/to/file1.txt', '/path/to/file2.txt'];
-        const [command] = (readService as any).buildSvnArgs('diff', paths, {});
-        expect(paths.forEach((p) => expect(command).toContain(p)));
-      });
-
-      it('should handle multiple paths with spaces', () => {
-        const paths = ['path one', 'path two', 'path three'];
-        const [command] = (readService as any).buildSvnArgs('diff', paths, {});
-        paths.forEach((p) => {
-          expect(command).toContain(`'${p}'`);
-        });
+        const [args] = (readService as any).buildSvnArgs('diff', paths, {});
+        paths.forEach((p) => expect(args).toContain(p));
       });
 
       it('should handle multiple paths with quotes', () => {
         const paths = ["Genie's Dream", "Builder's Path", "User's File"];
-        const [command] = (readService as any).buildSvnArgs('diff', paths, {});
-        expect(command).toContain("'Genie'\\''s Dream'");
-        expect(command).toContain("'Builder'\\''s Path'");
-        expect(command).toContain("'User'\\''s File'");
-      });
-
-      it('should handle mix of simple and complex paths', () => {
-        const paths = ['simple-path', 'path with spaces', "path'with'quotes"];
-        const [command] = (readService as any).buildSvnArgs('diff', paths, {});
-        expect(command).toContain('simple-path');
-        expect(command).toContain("'path with spaces'");
-        expect(command).toContain("'path'\\''with'\\''quotes'");
+        const [args] = (readService as any).buildSvnArgs('diff', paths, {});
+        paths.forEach((p) => expect(args).toContain(p));
       });
 
       it('should handle multiple URLs', () => {
         const urls = ["https://example.com/repo/Genie's Dream", "https://example.com/repo/Builder's Path"];
-        const [command] = (readService as any).buildSvnArgs('diff', urls, {});
-        expect(command).toContain("'https://example.com/repo/Genie'\\''s%20Dream'");
-        expect(command).toContain("'https://example.com/repo/Builder'\\''s%20Path'");
+        const [args] = (readService as any).buildSvnArgs('diff', urls, {});
+        expect(args).toContain("https://example.com/repo/Genie's%20Dream");
+        expect(args).toContain("https://example.com/repo/Builder's%20Path");
       });
 
-      it('should handle array with empty strings', () => {
+      it('should drop empty strings from the argument vector', () => {
         const paths = ['valid-path', '', 'another-path'];
-        const [command] = (readService as any).buildSvnArgs('diff', paths, {});
-        expect(command).toContain('valid-path');
-        expect(command).toContain('another-path');
+        const [args] = (readService as any).buildSvnArgs('diff', paths, {});
+        expect(args).toContain('valid-path');
+        expect(args).toContain('another-path');
+        expect(args).not.toContain('');
       });
 
       it('should handle large array of paths', () => {
         const paths = Array.from({ length: 10 }, (_, i) => `path${i} with spaces`);
-        const [command] = (readService as any).buildSvnArgs('diff', paths, {});
-        paths.forEach((p) => {
-          expect(command).toContain(`'${p}'`);
-        });
+        const [args] = (readService as any).buildSvnArgs('diff', paths, {});
+        expect(args.slice(-10)).toEqual(paths);
       });
     });
 
     describe('paths with repositoryUrl', () => {
       it('should resolve relative paths with repositoryUrl', () => {
         const paths = ['relative/path1', 'relative/path2'];
-        const [command] = (readService as any).buildSvnArgs('diff', paths, {
+        const [args] = (readService as any).buildSvnArgs('diff', paths, {
           repositoryUrl: 'https://example.com/repo',
         });
-        expect(command).toContain('https://example.com/repo/relative/path1');
-        expect(command).toContain('https://example.com/repo/relative/path2');
+        expect(args).toContain('https://example.com/repo/relative/path1');
+        expect(args).toContain('https://example.com/repo/relative/path2');
       });
 
       it('should resolve paths with spaces and repositoryUrl', () => {
-        const paths = ['path with spaces'];
-        const [command] = (readService as any).buildSvnArgs('list', paths, {
+        const [args] = (readService as any).buildSvnArgs('list', ['path with spaces'], {
           repositoryUrl: 'https://example.com/repo',
         });
-        expect(command).toContain('https://example.com/repo/path%20with%20spaces');
+        expect(args).toContain('https://example.com/repo/path%20with%20spaces');
       });
 
       it('should resolve paths with quotes and repositoryUrl', () => {
-        const paths = ["Genie's Dream"];
-        const [command] = (readService as any).buildSvnArgs('list', paths, {
+        const [args] = (readService as any).buildSvnArgs('list', ["Genie's Dream"], {
+          repositoryUrl: 'https://example.com/repo',
+        });
+        expect(args).toContain("https://example.com/repo/Genie's%20Dream");
+      });
+
+      it('should not resolve option values with repositoryUrl', () => {
+        const [args] = (readService as any).buildSvnArgs('list', ['--depth', 'immediates', '--revision', 'HEAD', 'trunk'], {
           repositoryUrl: 'https://example.com/repo',
         });
-        expect(command).toContain("'https://example.com/repo/Genie'\\''s%20Dream'");
+        expect(args).toContain('immediates');
+        expect(args).toContain('HEAD');
+        expect(args).toContain('https://example.com/repo/trunk');
+      });
+    });
+
+    describe('peg revisions', () => {
+      it('should escape paths whose last segment contains @', () => {
+        const [args] = (readService as any).buildSvnArgs('add', ['docs/user@example.txt', 'team@x/readme.txt', 'file@'], {});
+        expect(args).toEqual(['add', '--non-interactive', 'docs/user@example.txt@', 'team@x/readme.txt', 'file@@']);
+      });
+
+      it('should append the peg revision of pegged targets after resolving them', () => {
+        const targets = [{ path: 'trunk/deleted.txt', pegRevision: 41 }, { path: 'a@b.txt', pegRevision: 'HEAD' }, { path: 'c.txt' }];
+        const [args] = (readService as any).buildSvnArgs('cat', ['--revision', '{2024-01-01}', ...targets], {
+          repositoryUrl: 'https://example.com/repo',
+        });
+        expect(args.slice(2)).toEqual(['--revision', '{2024-01-01}', 'https://example.com/repo/trunk/deleted.txt@41', 'https://example.com/repo/a%40b.txt@HEAD', 'https://example.com/repo/c.txt']);
+      });
+
+      it('should format revisions, dates and ranges', () => {
+        expect((readService as any).formatRevision(7)).toBe('7');
+        expect((readService as any).formatRevision('COMMITTED')).toBe('COMMITTED');
+        expect((readService as any).formatRevision(new Date('2024-01-01T12:00:00Z'))).toBe('{2024-01-01T12:00:00.000Z}');
+        expect((readService as any).formatRevision({ start: '{2024-01-01}', end: 'HEAD' })).toBe('{2024-01-01}:HEAD');
+        expect((readService as any).buildRevisionArgs(0)).toEqual(['--revision', '0']);
+        expect((readService as any).buildRevisionArgs(undefined)).toEqual([]);
       });
     });
 
     describe('real-world scenarios', () => {
       it('should handle game project paths', () => {
         const paths = ['269_Mine Blast Jackpot/Mobile', '270_The Masked Goddess/Mobile', '271_bingo/Mobile'];
-        const [command] = (readService as any).buildSvnArgs('list', paths, {
+        const [args] = (readService as any).buildSvnArgs('list', paths, {
           repositoryUrl: 'https://example.com/repo',
         });
-        expect(command).toContain('https://example.com/repo/269_Mine%20Blast%20Jackpot/Mobile');
-        expect(command).toContain('https://example.com/repo/270_The%20Masked%20Goddess/Mobile');
-        expect(command).toContain('https://example.com/repo/271_bingo/Mobile');
-      });
-
-      it('should handle paths with various special characters', () => {
-        const paths = ['path with spaces', "path'with'quotes", 'path(with)parentheses', 'path[with]brackets', 'path{with}braces', 'path&with&ampersand'];
-        const [command] = (readService as any).buildSvnArgs('diff', paths, {});
-        expect(command).toContain("'path with spaces'");
-        expect(command).toContain("'path'\\''with'\\''quotes'");
-        expect(command).toContain("'path(with)parentheses'");
-        expect(command).toContain("'path[with]brackets'");
-        expect(command).toContain("'path{with}braces'");
-        expect(command).toContain("'path&with&ampersand'");
+        expect(args).toContain('https://example.com/repo/269_Mine%20Blast%20Jackpot/Mobile');
+        expect(args).toContain('https://example.com/repo/270_The%20Masked%20Goddess/Mobile');
+        expect(args).toContain('https://example.com/repo/271_bingo/Mobile');
       });
 
       it('should handle mixed file and directory paths', () => {
         const paths = ['/absolute/path/to/file.txt', './relative/path/to/file.txt', 'simple-file.txt', "file'with'quotes.txt"];
-        const [command] = (readService as any).buildSvnArgs('add', paths, {});
-        expect(command).toContain('/absolute/path/to/file.txt');
+        const [args] = (readService as any).buildSvnArgs('add', paths, {});
+        expect(args).toContain('/absolute/path/to/file.txt');
         // path.normalize() removes ./ prefix, so check for normalized path
-        expect(command).toContain('relative/path/to/file.txt');
-        expect(command).toContain('simple-file.txt');
-        expect(command).toContain("'file'\\''with'\\''quotes.txt'");
+        expect(args).toContain('relative/path/to/file.txt');
+        expect(args).toContain('simple-file.txt');
+        expect(args).toContain("file'with'quotes.txt");
       });
     });
   });
 
+  describe('streaming helpers', () => {
+    const spawnNode = (script: string) => jest.spyOn(readService as any, 'spawnSvn').mockImplementation(() => spawn(process.execPath, ['-e', script]));
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should split streamed text into lines across chunk boundaries', async () => {
+      const lines: string[] = [];
+      for await (const line of (readService as any).readLines(Readable.from([Buffer.from('A    one\r\nA  '), Buffer.from('  two\nChecked out revision 3.')]))) {
+        lines.push(line);
+      }
+
+      expect(lines).toEqual(['A    one', 'A    two', 'Checked out revision 3.']);
+    });
+
+    it('should yield complete XML elements across chunk boundaries', async () => {
+      const chunks = ['<?xml version="1.0"?>\n<log>\n<logentry revision="2"><author>a</author><msg>first</msg></logen', 'try>\n<logentry\n   revision="1"><msg>second</msg></logentry>\n</log>'];
+      const elements: XmlElement[] = [];
+      for await (const element of (readService as any).readXmlElements(Readable.from(chunks), 'logentry')) {
+        elements.push(element);
+      }
+
+      expect(elements.map((element) => element.attr('revision'))).toEqual(['2', '1']);
+      expect(elements[0].childText('msg')).toBe('first');
+      expect(elements[1].childText('msg')).toBe('second');
+    });
+
+    it('should stream output larger than the former exec buffer limit', async () => {
+      spawnNode('const chunk = "x".repeat(1024 * 1024); for (let i = 0; i < 12; i++) process.stdout.write(chunk);');
+
+      let size = 0;
+      for await (const chunk of (readService as any).executeStream(['cat', 'big.bin'])) {
+        size += chunk.length;
+      }
+
+      expect(size).toBe(12 * 1024 * 1024);
+    });
+
+    it('should destroy the stream with stderr when the command fails', async () => {
+      spawnNode('process.stderr.write("svn: E160013: File not found"); process.exit(1);');
+
+      const consume = async () => {
+        for await (const chunk of (readService as any).executeStream(['cat', 'missing.txt'])) {
+          expect(chunk).toBeDefined();
+        }
+      };
+
+      await expect(consume()).rejects.toBeInstanceOf(SvnPathNotFoundError);
+    });
+
+    it('should expose a typed error on failed command results', async () => {
+      spawnNode('process.stderr.write("svn: E155007: /tmp is not a working copy"); process.exit(1);');
+
+      const result = await (readService as any).executeCommand(['status', '/tmp']);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(SvnNotWorkingCopyError);
+      expect(result.error.code).toBe('E155007');
+    });
+  });
+
+  describe('cancellation and timeouts', () => {
+    const hangingScript = 'setInterval(() => {}, 1000);';
+    const spawnNode = (script: string) => jest.spyOn(readService as any, 'spawnSvn').mockImplementation(() => spawn(process.execPath, ['-e', script], { detached: process.platform !== 'win32' }));
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should kill the process and flag the result when timeoutMs is exceeded', async () => {
+      spawnNode(hangingScript);
+
+      const result = await (readService as any).executeCommand(['update'], { timeoutMs: 100 });
+
+      expect(result.success).toBe(false);
+      expect(result.timedOut).toBe(true);
+      expect(result.cancelled).toBe(false);
+    });
+
+    it('should kill the process and flag the result when the signal is aborted', async () => {
+      spawnNode(hangingScript);
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 50);
+
+      const result = await (readService as any).executeCommand(['update'], { signal: controller.signal });
+
+      expect(result.success).toBe(false);
+      expect(result.cancelled).toBe(true);
+      expect(result.timedOut).toBe(false);
+    });
+
+    it('should not spawn a process for an already aborted signal', async () => {
+      const spy = spawnNode(hangingScript);
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await (readService as any).executeCommand(['update'], { signal: controller.signal });
+
+      expect(result.cancelled).toBe(true);
+      expect(spy).not.toHaveBeenCalled();
+    });
+
+    it('should use the module-level timeout as default', async () => {
+      spawnNode(hangingScript);
+      readService.setDefaultOptions({ timeoutMs: 100 });
+
+      try {
+        await expect(readService.info('trunk')).rejects.toBeInstanceOf(SvnTimeoutError);
+      } finally {
+        readService.setDefaultOptions({ timeoutMs: undefined });
+      }
+    });
+
+    it('should reject read operations with a cancellation error', async () => {
+      spawnNode(hangingScript);
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 50);
+
+      await expect(readService.log('trunk', { signal: controller.signal })).rejects.toBeInstanceOf(SvnCancelledError);
+    });
+
+    it('should destroy streams with a cancellation error', async () => {
+      spawnNode(hangingScript);
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 50);
+
+      const consume = async () => {
+        for await (const chunk of readService.catStream('trunk/file.txt', { signal: controller.signal })) {
+          expect(chunk).toBeDefined();
+        }
+      };
+
+      await expect(consume()).rejects.toBeInstanceOf(SvnCancelledError);
+    });
+
+    it('should kill detached processes still running when Node exits', async () => {
+      if (process.platform === 'win32') {
+        return;
+      }
+      const listenersBefore = process.listenerCount('exit');
+
+      const child = (readService as any).spawnSvn(['-e', hangingScript], {}, process.execPath);
+      const exited = new Promise((resolve) => child.once('exit', resolve));
+      const [killOnExit] = process.listeners('exit').slice(listenersBefore);
+
+      expect(killOnExit).toBeDefined();
+      (killOnExit as () => void)();
+
+      await expect(exited).resolves.toBeNull();
+      expect(process.listenerCount('exit')).toBe(listenersBefore);
+    });
+  });
+
+  describe('spawn errors', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should report the system error in details instead of as exit code', async () => {
+      jest.spyOn(readService as any, 'spawnSvn').mockImplementation(() => spawn('svn-binary-that-does-not-exist', []));
+
+      const result = await (readService as any).executeCommand(['info']);
+
+      expect(result.success).toBe(false);
+      expect(result.code).toBeUndefined();
+      expect(result.error.exitCode).toBeUndefined();
+      expect(result.error.hasCode('ENOENT')).toBe(true);
+    });
+  });
+
+  describe('errorMode', () => {
+    const failingScript = 'process.stderr.write("svn: E170000: URL does not exist"); process.exit(1);';
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      readService.setDefaultOptions({ errorMode: undefined });
+    });
+
+    beforeEach(() => {
+      jest.spyOn(readService as any, 'spawnSvn').mockImplementation(() => spawn(process.execPath, ['-e', failingScript]));
+    });
+
+    it('should return empty results in result mode', async () => {
+      await expect(readService.info('trunk')).resolves.toBeNull();
+      await expect(readService.status('trunk')).resolves.toEqual([]);
+      await expect(readService.list('trunk')).resolves.toEqual([]);
+    });
+
+    it('should reject with a typed error when errorMode is throw', async () => {
+      await expect(readService.info('trunk', { errorMode: 'throw' })).rejects.toBeInstanceOf(SvnPathNotFoundError);
+      await expect(readService.log('trunk', { errorMode: 'throw' })).rejects.toBeInstanceOf(SvnPathNotFoundError);
+      await expect(readService.cat('trunk/a.txt', { errorMode: 'throw' })).rejects.toBeInstanceOf(SvnPathNotFoundError);
+    });
+
+    it('should use the module-level errorMode and allow per-call override', async () => {
+      readService.setDefaultOptions({ errorMode: 'throw' });
+
+      await expect(readService.list('trunk')).rejects.toBeInstanceOf(SvnPathNotFoundError);
+      await expect(readService.list('trunk', { errorMode: 'result' })).resolves.toEqual([]);
+    });
+  });
+
   describe('SVN path recognition integration tests', () => {
     beforeAll(async () => {
       try {
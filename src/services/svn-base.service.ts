@@ -1,20 +1,106 @@
 import { Logger } from '@nestjs/common';
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { spawn, ChildProcess } from 'child_process';
+import { PassThrough, Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { promises as fs } from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import type { SvnOptions, SvnCommandResult } from '../interfaces/svn-options.interface';
+import type { SvnOptions, SvnCommandResult, SvnPegTarget, SvnRevision, SvnRevisionRange, SvnTarget } from '../interfaces/svn-options.interface';
 import type { SvnModuleOptions } from '../interfaces/svn-module-options.interface';
-
-const execAsync = promisify(exec);
+import { SvnCancelledError, SvnError, SvnTimeoutError } from '../errors/svn.error';
+import { createSvnError } from '../errors/svn-error.parser';
+import { XmlStreamParser } from '../utils/xml-parser';
+import type { XmlElement } from '../utils/xml-parser';
 
 /**
  * Constants for SVN command execution
  */
 const COMMAND_CONSTANTS = {
-  MAX_BUFFER: 10 * 1024 * 1024,
+  SVN_BINARY: 'svn',
+  SVNMUCC_BINARY: 'svnmucc',
   LOCALE_EN: 'C',
+  MASKED_VALUE: '******',
+  MAX_STREAM_STDERR: 64 * 1024,
+  KILL_GRACE_PERIOD_MS: 5000,
 } as const;
 
+/**
+ * Executable run for a command: svn, or svnmucc for working-copy-free multi-operation commits
+ */
+export type SvnBinary = (typeof COMMAND_CONSTANTS)['SVN_BINARY' | 'SVNMUCC_BINARY'];
+
+/**
+ * Reason a command was stopped before it finished
+ */
+type AbortReason = 'cancelled' | 'timeout';
+
+/**
+ * Detached svn processes still running, killed when the Node process exits
+ */
+const runningProcessGroups = new Set<ChildProcess>();
+
+/**
+ * Kill the process groups of svn commands still running at exit
+ * Detached processes would otherwise outlive Node when it exits or crashes without cancelling them
+ * (a SIGKILL of the Node process itself skips exit handlers, so those can still be left behind)
+ */
+const killRunningProcessGroups = (): void => {
+  runningProcessGroups.forEach((child) => {
+    try {
+      process.kill(-(child.pid as number), 'SIGKILL');
+    } catch {
+      // Process group already gone
+    }
+  });
+};
+
+/**
+ * Track a detached process until it exits, with the exit handler registered only while any are running
+ */
+const trackProcessGroup = (child: ChildProcess): void => {
+  if (!child.pid) {
+    return;
+  }
+
+  if (runningProcessGroups.size === 0) {
+    process.on('exit', killRunningProcessGroups);
+  }
+  runningProcessGroups.add(child);
+
+  child.once('exit', () => {
+    runningProcessGroups.delete(child);
+    if (runningProcessGroups.size === 0) {
+      process.removeListener('exit', killRunningProcessGroups);
+    }
+  });
+};
+
+/**
+ * SVN options whose following argument is a value (message, depth, revision, etc.), not a path
+ */
+const VALUE_FLAGS = new Set<string>([
+  '--accept',
+  '--change',
+  '--changelist',
+  '--depth',
+  '--diff-cmd',
+  '--encoding',
+  '--extensions',
+  '--file',
+  '--limit',
+  '--message',
+  '--native-eol',
+  '--password',
+  '--revision',
+  '--search',
+  '--search-and',
+  '--set-depth',
+  '--show-revs',
+  '--targets',
+  '--username',
+  '--with-revprop',
+]);
+
 export abstract class SvnBaseService {
   protected readonly logger: Logger;
   protected defaultOptions: SvnModuleOptions = {};
@@ -47,36 +133,377 @@ export abstract class SvnBaseService {
 
   /**
    * Execute SVN command
-   * @param command - Command string to execute
+   * Rejects with the typed SvnError on failure when errorMode is 'throw'
+   * @param args - Argument vector passed to the svn binary (no shell involved)
    * @param mergedOptions - Already merged options (from buildSvnArgs) or raw options to merge
+   * @param binary - Executable to run (svnmucc for remote transactions)
    */
-  protected async executeCommand(command: string, mergedOptions?: SvnOptions): Promise<SvnCommandResult> {
-    if (this.debug) {
-      this.logger.debug(`Executing: ${command}`);
+  protected async executeCommand(args: string[], mergedOptions?: SvnOptions, binary: SvnBinary = COMMAND_CONSTANTS.SVN_BINARY): Promise<SvnCommandResult> {
+    const options = mergedOptions || this.mergeOptions({});
+
+    return this.applyErrorMode(await this.runCommand(args, options, binary), options);
+  }
+
+  /**
+   * Fail a command before running it (e.g. invalid arguments), honouring errorMode like executeCommand
+   * @param mergedOptions - Already merged options (from buildSvnArgs or mergeOptions)
+   */
+  protected rejectCommand(error: SvnError, mergedOptions: SvnOptions): SvnCommandResult {
+    return this.applyErrorMode({ success: false, stdout: '', stderr: error.message, error }, mergedOptions);
+  }
+
+  /**
+   * Throw the error of a failed result when errorMode is 'throw', otherwise return the result
+   */
+  private applyErrorMode(result: SvnCommandResult, options: SvnOptions): SvnCommandResult {
+    if (!result.success && options.errorMode === 'throw') {
+      throw result.error;
     }
 
-    const options = mergedOptions || this.mergeOptions({});
+    return result;
+  }
 
-    try {
-      const env = this.buildEnvironment(options);
-      const cwd = process.cwd();
+  /**
+   * Run the svn process and collect its output
+   */
+  private async runCommand(args: string[], options: SvnOptions, binary: SvnBinary): Promise<SvnCommandResult> {
+    if (options.signal?.aborted) {
+      return this.buildAbortedResult('cancelled', options);
+    }
 
-      const { stdout, stderr } = await execAsync(command, {
-        cwd,
-        env,
-        maxBuffer: COMMAND_CONSTANTS.MAX_BUFFER,
-      });
+    return new Promise<SvnCommandResult>((resolve) => {
+      const stdoutChunks: Buffer[] = [];
+      const stderrChunks: Buffer[] = [];
+      let settled = false;
+      let abortReason: AbortReason | undefined;
 
-      return {
-        success: true,
-        stdout: stdout.trim(),
-        stderr: stderr.trim(),
+      const settle = (result: SvnCommandResult): void => {
+        if (!settled) {
+          settled = true;
+          resolve(result);
+        }
       };
+
+      let child: ChildProcess;
+      try {
+        child = this.spawnSvn(args, options, binary);
+      } catch (error: unknown) {
+        settle(this.handleCommandError(error));
+
+        return;
+      }
+
+      const stopWatching = this.watchAbort(child, options, (reason) => {
+        abortReason = reason;
+      });
+
+      child.stdout?.on('data', (chunk: Buffer) => stdoutChunks.push(chunk));
+      child.stderr?.on('data', (chunk: Buffer) => stderrChunks.push(chunk));
+
+      child.on('error', (error) => {
+        stopWatching();
+        settle(this.handleCommandError(error, Buffer.concat(stdoutChunks).toString('utf8')));
+      });
+
+      child.on('close', (code) => {
+        stopWatching();
+        const stdout = Buffer.concat(stdoutChunks).toString('utf8').trim();
+        const stderr = Buffer.concat(stderrChunks).toString('utf8').trim();
+
+        if (abortReason) {
+          settle({ ...this.buildAbortedResult(abortReason, options), stdout });
+
+          return;
+        }
+
+        settle({
+          success: code === 0,
+          stdout,
+          stderr,
+          code: code ?? undefined,
+          error: code === 0 ? undefined : createSvnError(stderr, code ?? undefined),
+        });
+      });
+    });
+  }
+
+  /**
+   * Execute SVN command and stream its standard output
+   * Output is passed through as it arrives and never buffered as a whole.
+   * A non-zero exit destroys the stream with an error built from stderr; destroying the stream stops the process.
+   */
+  protected executeStream(args: string[], mergedOptions?: SvnOptions): Readable {
+    const options = mergedOptions || this.mergeOptions({});
+    const output = new PassThrough();
+    let stderr = '';
+    let exited = false;
+    let abortReason: AbortReason | undefined;
+
+    if (options.signal?.aborted) {
+      process.nextTick(() => output.destroy(this.createAbortError('cancelled', options)));
+
+      return output;
+    }
+
+    let child: ChildProcess;
+    try {
+      child = this.spawnSvn(args, options);
     } catch (error: unknown) {
-      return this.handleCommandError(error);
+      process.nextTick(() => output.destroy(new SvnError(error instanceof Error ? error.message : String(error))));
+
+      return output;
+    }
+
+    const stopWatching = this.watchAbort(child, options, (reason) => {
+      abortReason = reason;
+    });
+
+    child.stdout?.pipe(output, { end: false });
+    child.stderr?.on('data', (chunk: Buffer) => {
+      if (stderr.length < COMMAND_CONSTANTS.MAX_STREAM_STDERR) {
+        stderr += chunk.toString('utf8');
+      }
+    });
+
+    child.on('error', (error) => {
+      exited = true;
+      stopWatching();
+      output.destroy(error);
+    });
+
+    child.on('close', (code) => {
+      exited = true;
+      stopWatching();
+
+      if (abortReason) {
+        output.destroy(this.createAbortError(abortReason, options));
+      } else if (code === 0) {
+        output.end();
+      } else {
+        output.destroy(createSvnError(stderr, code ?? undefined));
+      }
+    });
+
+    output.on('close', () => {
+      if (!exited) {
+        this.killProcessTree(child);
+      }
+    });
+
+    return output;
+  }
+
+  /**
+   * Throw a typed error if the command was cancelled or timed out
+   * Used by read operations that would otherwise hide the failure behind an empty result
+   */
+  protected throwIfAborted(result: SvnCommandResult, options: SvnOptions): void {
+    if (result.cancelled || result.timedOut) {
+      throw result.error || this.createAbortError(result.timedOut ? 'timeout' : 'cancelled', options);
     }
   }
 
+  /**
+   * Watch a running process for abort signal and timeout
+   * @returns Function that removes the listener and timer once the process has exited
+   */
+  private watchAbort(child: ChildProcess, options: SvnOptions, onAbort: (reason: AbortReason) => void): () => void {
+    let timer: NodeJS.Timeout | undefined;
+
+    const abort = (reason: AbortReason): void => {
+      onAbort(reason);
+      this.killProcessTree(child);
+    };
+    const onSignal = (): void => abort('cancelled');
+
+    options.signal?.addEventListener('abort', onSignal, { once: true });
+
+    if (options.timeoutMs && options.timeoutMs > 0) {
+      timer = setTimeout(() => abort('timeout'), options.timeoutMs);
+    }
+
+    return () => {
+      options.signal?.removeEventListener('abort', onSignal);
+      if (timer) {
+        clearTimeout(timer);
+      }
+    };
+  }
+
+  /**
+   * Kill the svn process together with its children (e.g. ssh tunnels for svn+ssh://)
+   * Unix: the process group is terminated, then killed if still alive after a grace period
+   * Windows: taskkill terminates the whole process tree
+   */
+  private killProcessTree(child: ChildProcess): void {
+    if (!child.pid || child.exitCode !== null || child.signalCode !== null) {
+      return;
+    }
+
+    if (process.platform === 'win32') {
+      spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { windowsHide: true }).on('error', () => child.kill());
+
+      return;
+    }
+
+    const pid = child.pid;
+    const signalGroup = (signal: NodeJS.Signals): void => {
+      try {
+        process.kill(-pid, signal);
+      } catch {
+        // Process group already gone
+        child.kill(signal);
+      }
+    };
+
+    signalGroup('SIGTERM');
+
+    const killTimer = setTimeout(() => {
+      if (child.exitCode === null && child.signalCode === null) {
+        signalGroup('SIGKILL');
+      }
+    }, COMMAND_CONSTANTS.KILL_GRACE_PERIOD_MS);
+    killTimer.unref();
+  }
+
+  /**
+   * Build the result returned for a cancelled or timed out command
+   */
+  private buildAbortedResult(reason: AbortReason, options: SvnOptions): SvnCommandResult {
+    const error = this.createAbortError(reason, options);
+
+    return {
+      success: false,
+      stdout: '',
+      stderr: error.message,
+      cancelled: reason === 'cancelled',
+      timedOut: reason === 'timeout',
+      error,
+    };
+  }
+
+  /**
+   * Create the error matching an abort reason
+   */
+  private createAbortError(reason: AbortReason, options: SvnOptions): SvnError {
+    return reason === 'timeout' ? new SvnTimeoutError(options.timeoutMs) : new SvnCancelledError();
+  }
+
+  /**
+   * Iterate over the lines of a text stream
+   */
+  protected async *readLines(stream: Readable): AsyncGenerator<string> {
+    const decoder = new StringDecoder('utf8');
+    let buffered = '';
+
+    for await (const chunk of stream) {
+      buffered += decoder.write(chunk as Buffer);
+      const lines = buffered.split(/\r?\n/);
+      buffered = lines.pop() ?? '';
+
+      for (const line of lines) {
+        yield line;
+      }
+    }
+
+    buffered += decoder.end();
+    if (buffered) {
+      yield buffered;
+    }
+  }
+
+  /**
+   * Iterate over complete XML elements with the given tag name in a streamed XML document
+   * Elements nested in an element of the same name stay part of their parent; yielded elements are detached, so memory stays flat
+   */
+  protected async *readXmlElements(stream: Readable, tagName: string): AsyncGenerator<XmlElement> {
+    const decoder = new StringDecoder('utf8');
+    const completed: XmlElement[] = [];
+    const parser = new XmlStreamParser((element, parent) => {
+      if (element.name !== tagName || parent.name === tagName) {
+        return false;
+      }
+      completed.push(element);
+
+      return true;
+    });
+
+    for await (const chunk of stream) {
+      parser.write(decoder.write(chunk as Buffer));
+      yield* completed.splice(0);
+    }
+
+    parser.write(decoder.end());
+    parser.end();
+    yield* completed.splice(0);
+  }
+
+  /**
+   * Write content to a temporary file for the duration of a callback
+   * Used to pass values through `--file` (binary data, values that would be read as options)
+   */
+  protected async withTempFile<T>(content: string | Buffer | Readable, callback: (filePath: string) => Promise<T>): Promise<T> {
+    return this.withTempFiles([content], async ([filePath]) => callback(filePath));
+  }
+
+  /**
+   * Write several contents to temporary files (in order) for the duration of a callback
+   * Streams are written to disk as they are read, so large uploads are never buffered in memory
+   */
+  protected async withTempFiles<T>(contents: Array<string | Buffer | Readable>, callback: (filePaths: string[]) => Promise<T>): Promise<T> {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'nestjs-svn-'));
+
+    try {
+      const filePaths: string[] = [];
+      for (const [index, content] of contents.entries()) {
+        const filePath = path.join(directory, `value-${index}`);
+        await fs.writeFile(filePath, content);
+        filePaths.push(filePath);
+      }
+
+      return await callback(filePaths);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Spawn the svn binary with an argument vector
+   * Arguments are passed verbatim to the process, so quotes, `$`, backticks and newlines need no escaping
+   * On Unix the process runs detached in its own group; groups still running are killed when Node exits
+   */
+  protected spawnSvn(args: string[], options: SvnOptions, binary: SvnBinary = COMMAND_CONSTANTS.SVN_BINARY): ChildProcess {
+    if (this.debug) {
+      this.logger.debug(`Executing: ${this.formatCommandForLog(args, binary)}`);
+    }
+
+    const detached = process.platform !== 'win32';
+    const child = spawn(binary, args, {
+      cwd: process.cwd(),
+      env: this.buildEnvironment(options),
+      shell: false,
+      windowsHide: true,
+      // Own process group on Unix so the whole tree can be killed on cancellation or timeout
+      detached,
+    });
+
+    // A detached group is not stopped with Node, so kill it when Node exits first
+    if (detached) {
+      trackProcessGroup(child);
+    }
+
+    return child;
+  }
+
+  /**
+   * Format argument vector for debug logging, masking the password value
+   */
+  private formatCommandForLog(args: string[], binary: SvnBinary): string {
+    const masked = args.map((arg, index) => (index > 0 && args[index - 1] === '--password' ? COMMAND_CONSTANTS.MASKED_VALUE : arg));
+
+    return `${binary} ${masked.map((arg) => JSON.stringify(arg)).join(' ')}`;
+  }
+
   /**
    * Build environment variables for SVN command execution
    */
@@ -112,24 +539,20 @@ export abstract class SvnBaseService {
   }
 
   /**
-   * Handle command execution errors
+   * Handle process spawn errors (e.g. svn binary not found)
    */
-  private handleCommandError(error: unknown): SvnCommandResult {
-    if (error && typeof error === 'object' && 'stdout' in error && 'stderr' in error && 'code' in error) {
-      const execError = error as { stdout?: string; stderr?: string; code?: number; message?: string };
+  private handleCommandError(error: unknown, stdout: string = ''): SvnCommandResult {
+    const spawnError = error as NodeJS.ErrnoException;
+    const message = error instanceof Error ? error.message : String(error);
 
-      return {
-        success: false,
-        stdout: execError.stdout?.trim() || '',
-        stderr: execError.stderr?.trim() || execError.message || '',
-        code: execError.code,
-      };
-    }
+    // errno is an OS error number (e.g. -2 for ENOENT), not an exit code, so the system error is only reported in details
+    const systemCode = spawnError?.code ?? (typeof spawnError?.errno === 'number' ? String(spawnError.errno) : undefined);
 
     return {
       success: false,
-      stdout: '',
-      stderr: error instanceof Error ? error.message : String(error),
+      stdout: stdout.trim(),
+      stderr: message,
+      error: new SvnError(message, { stderr: message, details: systemCode ? [{ code: systemCode, message }] : [] }),
     };
   }
 
@@ -161,6 +584,19 @@ export abstract class SvnBaseService {
       .replace(/&#x([\da-f]+);/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
   }
 
+  /**
+   * Remove undefined fields so results only contain what svn reported
+   */
+  protected removeUndefinedFields<T extends object>(value: T): T {
+    Object.keys(value).forEach((key) => {
+      if (value[key] === undefined) {
+        delete value[key];
+      }
+    });
+
+    return value;
+  }
+
   /**
    * Encode URL path segments (only the path part, not the entire URL)
    * Decodes HTML entities and URL encoding first to avoid double encoding
@@ -217,7 +653,7 @@ export abstract class SvnBaseService {
   /**
    * Check if a string is a URL
    */
-  private isUrl(path: string): boolean {
+  protected isUrl(path: string): boolean {
     return /^[a-zA-Z][a-zA-Z\d+\-.]*:/.test(path);
   }
 
@@ -270,46 +706,69 @@ export abstract class SvnBaseService {
     return path.normalize(pathStr);
   }
 
+  /**
+   * Resolve the path of a target with repositoryUrl, keeping its peg revision
+   */
+  protected resolveTarget(target: SvnTarget, options: SvnOptions): SvnPegTarget {
+    const pegTarget = typeof target === 'string' ? { path: target } : target;
+
+    return { ...pegTarget, path: this.resolvePath(pegTarget.path, options) || pegTarget.path };
+  }
+
+  /**
+   * Format a revision or revision range for the command line
+   * Dates are passed as `{ISO 8601}`, ranges as `start:end`
+   */
+  protected formatRevision(revision: SvnRevision | SvnRevisionRange): string {
+    if (revision instanceof Date) {
+      return `{${revision.toISOString()}}`;
+    }
+
+    if (typeof revision === 'object') {
+      return `${this.formatRevision(revision.start)}:${this.formatRevision(revision.end)}`;
+    }
+
+    return String(revision);
+  }
+
+  /**
+   * Build revision arguments
+   */
+  protected buildRevisionArgs(revision?: SvnRevision | SvnRevisionRange): string[] {
+    return revision !== undefined ? ['--revision', this.formatRevision(revision)] : [];
+  }
+
   /**
    * Build SVN command arguments
-   * @returns Tuple of [command string, merged options] - merged options can be reused for executeCommand
+   * Path arguments are resolved with repositoryUrl and escaped or pegged by formatTarget
+   * @param literalArgs - Operands placed right after the command and never resolved as paths (e.g. property names)
+   * @returns Tuple of [argument vector, merged options] - merged options can be reused for executeCommand
    */
-  protected buildSvnArgs(command: string, args: string[] = [], options: SvnOptions = {}): [string, SvnOptions] {
+  protected buildSvnArgs(command: string, args: SvnTarget[] = [], options: SvnOptions = {}, literalArgs: string[] = []): [string[], SvnOptions] {
     const mergedOptions = this.mergeOptions(options);
-    const svnArgs: string[] = [command];
+    const svnArgs: string[] = [command, ...literalArgs];
 
     this.addCommonFlags(svnArgs, mergedOptions);
     this.addAuthFlags(svnArgs, mergedOptions);
 
-    const resolvedArgs = this.resolvePathArgs(args, mergedOptions);
-    const escapedArgs = resolvedArgs.map((arg) => this.escapeShellArg(arg));
-    svnArgs.push(...escapedArgs);
+    svnArgs.push(...this.resolvePathArgs(args, mergedOptions));
 
-    return [`svn ${svnArgs.join(' ')}`, mergedOptions];
+    return [svnArgs, mergedOptions];
   }
 
   /**
-   * Escape shell argument to handle special characters safely
-   * Uses platform-specific escaping: single quotes for Unix/Linux, double quotes for Windows
+   * Build svnmucc command arguments
+   * Actions are appended verbatim after the global and authentication flags, so URLs must already be resolved
+   * @returns Tuple of [argument vector, merged options] - merged options can be reused for executeCommand
    */
-  private escapeShellArg(arg: string): string {
-    if (!arg) {
-      return arg;
-    }
+  protected buildSvnmuccArgs(actions: string[], options: SvnOptions = {}): [string[], SvnOptions] {
+    const mergedOptions = this.mergeOptions(options);
+    const svnmuccArgs: string[] = [];
 
-    // Simple arguments don't need escaping
-    if (!/[^\w\-./:=@%]/.test(arg)) {
-      return arg;
-    }
+    this.addCommonFlags(svnmuccArgs, mergedOptions);
+    this.addAuthFlags(svnmuccArgs, mergedOptions);
 
-    // Windows uses double quotes, Unix/Linux uses single quotes
-    if (process.platform === 'win32') {
-      // Windows: escape double quotes and wrap in double quotes
-      return `"${arg.replace(/"/g, '\\"')}"`;
-    } else {
-      // Unix/Linux: escape single quotes and wrap in single quotes
-      return `'${arg.replace(/'/g, "'\\''")}'`;
-    }
+    return [[...svnmuccArgs, ...actions], mergedOptions];
   }
 
   /**
@@ -344,14 +803,51 @@ export abstract class SvnBaseService {
 
   /**
    * Resolve paths in arguments with repositoryUrl option
+   * Option values (e.g. the argument after --message or --depth) are passed through untouched
    */
-  private resolvePathArgs(args: string[], options: SvnOptions): string[] {
-    return args.map((arg) => {
-      if (arg && !arg.startsWith('--') && !/^\d+$/.test(arg)) {
-        return this.resolvePath(arg, options) || arg;
+  private resolvePathArgs(args: SvnTarget[], options: SvnOptions): string[] {
+    const resolved: string[] = [];
+
+    args.forEach((arg, index) => {
+      if (typeof arg !== 'string') {
+        resolved.push(this.formatTarget(this.resolveTarget(arg, options)));
+
+        return;
+      }
+
+      const previous = args[index - 1];
+      if (typeof previous === 'string' && VALUE_FLAGS.has(previous)) {
+        resolved.push(arg);
+
+        return;
+      }
+
+      // Empty arguments were dropped by the shell before; keep them out of the argument vector
+      if (!arg) {
+        return;
+      }
+
+      if (!arg.startsWith('--') && !/^\d+$/.test(arg)) {
+        resolved.push(this.formatTarget(this.resolveTarget(arg, options)));
+
+        return;
       }
 
-      return arg;
+      resolved.push(arg);
     });
+
+    return resolved;
+  }
+
+  /**
+   * Append the peg revision of a resolved target
+   * Without a peg revision, a path whose last segment contains `@` gets an empty peg (`@`), otherwise svn would read the text after `@` as peg revision
+   */
+  protected formatTarget(target: SvnPegTarget): string {
+    if (target.pegRevision !== undefined) {
+      return `${target.path}@${this.formatRevision(target.pegRevision)}`;
+    }
+
+    return /@[^/\\]*$/.test(target.path) ? `${target.path}@` : target.path;
   }
 }
@@ -0,0 +1,875 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import * as path from 'path';
+import { PassThrough, Readable } from 'stream';
+import { SvnPathNotFoundError } from '../errors/svn.error';
+import { SvnReadService } from './svn-read.service';
+
+describe('SvnReadService Output Parsing', () => {
+  let readService: SvnReadService;
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [SvnReadService],
+    }).compile();
+
+    readService = module.get<SvnReadService>(SvnReadService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('info', () => {
+    const workingCopyInfoXml = `<?xml version="1.0" encoding="UTF-8"?>
+<info>
+<entry
+   kind="file"
+   path="docs/R&amp;D notes.txt"
+   revision="12">
+<url>file:///srv/repo/trunk/docs/R&amp;D%20notes.txt</url>
+<relative-url>^/trunk/docs/R&amp;D%20notes.txt</relative-url>
+<repository>
+<root>file:///srv/repo</root>
+<uuid>6f1b2c3d-0000-4a5b-8c9d-0123456789ab</uuid>
+</repository>
+<wc-info>
+<wcroot-abspath>/home/dev/wc</wcroot-abspath>
+<schedule>add</schedule>
+<depth>infinity</depth>
+<copy-from-url>file:///srv/repo/trunk/docs/old.txt</copy-from-url>
+<copy-from-rev>10</copy-from-rev>
+<text-updated>2024-03-01T10:00:00.000000Z</text-updated>
+<checksum>a94a8fe5ccb19ba61c4c0873d391e987982fbbd3</checksum>
+<changelist>review</changelist>
+</wc-info>
+<commit
+   revision="11">
+<author>alice</author>
+<date>2024-02-28T09:30:00.000000Z</date>
+</commit>
+<lock>
+<token>opaquelocktoken:1234</token>
+<owner>bob</owner>
+<comment>editing
+binary</comment>
+<created>2024-03-01T11:00:00.000000Z</created>
+</lock>
+<conflict
+   type="text">
+<prev-base-file>notes.txt.r11</prev-base-file>
+<prev-wc-file>notes.txt.mine</prev-wc-file>
+<cur-base-file>notes.txt.r12</cur-base-file>
+<version
+   side="source-left"
+   kind="file"
+   path-in-repos="trunk/docs/notes.txt"
+   repos-url="file:///srv/repo"
+   revision="11"/>
+</conflict>
+<tree-conflict
+   victim="notes.txt"
+   kind="file"
+   operation="update"
+   action="edit"
+   reason="delete">
+<version
+   side="source-right"
+   kind="file"
+   path-in-repos="trunk/docs/notes.txt"
+   repos-url="file:///srv/repo"
+   revision="12"/>
+</tree-conflict>
+</entry>
+</info>`;
+
+    it('should parse the complete working copy model from XML', () => {
+      const [info] = (readService as any).parseInfoOutput(workingCopyInfoXml);
+
+      expect(info).toEqual({
+        path: 'docs/R&D notes.txt',
+        url: 'file:///srv/repo/trunk/docs/R&D%20notes.txt',
+        relativeUrl: '^/trunk/docs/R&D%20notes.txt',
+        repositoryRoot: 'file:///srv/repo',
+        repositoryUuid: '6f1b2c3d-0000-4a5b-8c9d-0123456789ab',
+        revision: '12',
+        nodeKind: 'file',
+        workingCopyRoot: '/home/dev/wc',
+        schedule: 'add',
+        depth: 'infinity',
+        checksum: 'a94a8fe5ccb19ba61c4c0873d391e987982fbbd3',
+        textUpdated: '2024-03-01T10:00:00.000000Z',
+        changelist: 'review',
+        copyFromUrl: 'file:///srv/repo/trunk/docs/old.txt',
+        copyFromRev: '10',
+        lastChangedRev: '11',
+        lastChangedAuthor: 'alice',
+        lastChangedDate: '2024-02-28T09:30:00.000000Z',
+        lock: {
+          token: 'opaquelocktoken:1234',
+          owner: 'bob',
+          comment: 'editing\nbinary',
+          created: '2024-03-01T11:00:00.000000Z',
+        },
+        conflicts: [
+          {
+            type: 'text',
+            prevBaseFile: 'notes.txt.r11',
+            prevWcFile: 'notes.txt.mine',
+            curBaseFile: 'notes.txt.r12',
+            versions: [{ side: 'source-left', kind: 'file', pathInRepos: 'trunk/docs/notes.txt', reposUrl: 'file:///srv/repo', revision: '11' }],
+          },
+          {
+            type: 'tree',
+            victim: 'notes.txt',
+            kind: 'file',
+            operation: 'update',
+            action: 'edit',
+            reason: 'delete',
+            versions: [{ side: 'source-right', kind: 'file', pathInRepos: 'trunk/docs/notes.txt', reposUrl: 'file:///srv/repo', revision: '12' }],
+          },
+        ],
+      });
+    });
+
+    it('should parse multiple entries', () => {
+      const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<info>
+<entry path="trunk" revision="5" kind="dir"><url>file:///srv/repo/trunk</url><repository><root>file:///srv/repo</root><uuid>u</uuid></repository><commit revision="5"><author>a</author><date>d</date></commit></entry>
+<entry path="a.txt" revision="5" kind="file"><url>file:///srv/repo/trunk/a.txt</url><repository><root>file:///srv/repo</root><uuid>u</uuid></repository><commit revision="3"><author>b</author><date>d</date></commit></entry>
+</info>`;
+
+      const entries = (readService as any).parseInfoOutput(xml);
+
+      expect(entries.map((entry) => [entry.path, entry.nodeKind, entry.lastChangedRev])).toEqual([
+        ['trunk', 'dir', '5'],
+        ['a.txt', 'file', '3'],
+      ]);
+      expect(entries[0].workingCopyRoot).toBeUndefined();
+    });
+
+    it('should request XML with depth and fill sizes of URL files from list', async () => {
+      const infoXml = `<info><entry path="a.txt" revision="7" kind="file"><url>file:///srv/repo/trunk/a.txt</url><repository><root>file:///srv/repo</root><uuid>u</uuid></repository></entry></info>`;
+      const listXml = `<lists><list path="file:///srv/repo/trunk/a.txt"><entry kind="file"><name>a.txt</name><size>1234</size></entry></list></lists>`;
+      const execute = jest
+        .spyOn(readService as any, 'executeCommand')
+        .mockResolvedValueOnce({ success: true, stdout: infoXml, stderr: '' })
+        .mockResolvedValueOnce({ success: true, stdout: listXml, stderr: '' });
+
+      const entries = await readService.infoEntries(['file:///srv/repo/trunk/a.txt'], { depth: 'immediates' });
+
+      expect(execute.mock.calls[0][0]).toEqual(expect.arrayContaining(['info', '--xml', '--depth', 'immediates']));
+      expect(execute.mock.calls[1][0]).toEqual(expect.arrayContaining(['list', '--depth', 'empty', 'file:///srv/repo/trunk/a.txt@7']));
+      expect(entries[0].size).toBe(1234);
+    });
+
+    it('should read sizes of pegged targets at the revision info reported', async () => {
+      const infoXml = `<info><entry path="a b.txt" revision="5" kind="file"><url>file:///srv/repo/trunk/a%20b.txt</url><repository><root>file:///srv/repo</root><uuid>u</uuid></repository></entry></info>`;
+      const listXml = `<lists><list path="file:///srv/repo/trunk/a b.txt"><entry kind="file"><name>a b.txt</name><size>42</size></entry></list></lists>`;
+      const execute = jest
+        .spyOn(readService as any, 'executeCommand')
+        .mockResolvedValueOnce({ success: true, stdout: infoXml, stderr: '' })
+        .mockResolvedValueOnce({ success: true, stdout: listXml, stderr: '' });
+
+      const entries = await readService.infoEntries({ path: 'trunk/a b.txt', pegRevision: 5 }, { repositoryUrl: 'file:///srv/repo' });
+
+      expect(execute.mock.calls[0][0]).toEqual(expect.arrayContaining(['file:///srv/repo/trunk/a%20b.txt@5']));
+      expect(execute.mock.calls[1][0]).toEqual(['list', '--non-interactive', '--xml', '--depth', 'empty', 'file:///srv/repo/trunk/a%20b.txt@5']);
+      expect(entries[0].size).toBe(42);
+    });
+  });
+
+  describe('log', () => {
+    it('should keep multi-line messages and read path attributes in any order', () => {
+      const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<log>
+<logentry
+   revision="15">
+<author>jane</author>
+<date>2024-03-01T10:00:00.000000Z</date>
+<paths>
+<path
+   text-mods="true"
+   kind="file"
+   action="M"
+   prop-mods="false">/trunk/a &amp; b.txt</path>
+<path
+   copyfrom-path="/trunk/old.txt"
+   copyfrom-rev="14"
+   action="A"
+   kind="file"
+   prop-mods="false"
+   text-mods="false">/trunk/new.txt</path>
+</paths>
+<msg>Fix parser
+
+- handle &lt;msg&gt; over several lines
+- keep   spacing</msg>
+</logentry>
+</log>`;
+
+      const [entry] = (readService as any).parseLogOutput(xml);
+
+      expect(entry).toEqual({
+        revision: '15',
+        author: 'jane',
+        date: '2024-03-01T10:00:00.000000Z',
+        message: 'Fix parser\n\n- handle <msg> over several lines\n- keep   spacing',
+        paths: [
+          { action: 'M', kind: 'file', path: '/trunk/a & b.txt', textMods: true, propMods: false },
+          { action: 'A', kind: 'file', path: '/trunk/new.txt', textMods: false, propMods: false, copyFromPath: '/trunk/old.txt', copyFromRevision: '14' },
+        ],
+      });
+    });
+
+    it('should parse entries without author or message', () => {
+      const xml = `<log><logentry revision="1"><date>2024-01-01T00:00:00.000000Z</date></logentry></log>`;
+
+      expect((readService as any).parseLogOutput(xml)).toEqual([{ revision: '1', author: '', date: '2024-01-01T00:00:00.000000Z', message: '' }]);
+    });
+
+    it('should nest merged revisions under the merging revision', () => {
+      const xml = `<log>
+<logentry revision="20"><author>jane</author><date>2024-04-01T00:00:00.000000Z</date><msg>Merge feature</msg>
+<logentry reverse-merge="false" revision="18"><author>joe</author><date>2024-03-30T00:00:00.000000Z</date><msg>Feature part 2</msg>
+<logentry reverse-merge="true" revision="12"><author>ann</author><date>2024-03-01T00:00:00.000000Z</date><msg>Revert</msg></logentry>
+</logentry>
+</logentry>
+<logentry revision="19"><author>joe</author><date>2024-03-31T00:00:00.000000Z</date><msg>Fix</msg></logentry>
+</log>`;
+
+      const entries = (readService as any).parseLogOutput(xml);
+
+      expect(entries.map((entry) => entry.revision)).toEqual(['20', '19']);
+      expect(entries[0].reverseMerge).toBeUndefined();
+      expect(entries[0].children).toEqual([
+        {
+          revision: '18',
+          author: 'joe',
+          date: '2024-03-30T00:00:00.000000Z',
+          message: 'Feature part 2',
+          reverseMerge: false,
+          children: [{ revision: '12', author: 'ann', date: '2024-03-01T00:00:00.000000Z', message: 'Revert', reverseMerge: true }],
+        },
+      ]);
+      expect(entries[1].children).toBeUndefined();
+    });
+
+    it('should pass verbose, search, merge history and revprop flags', async () => {
+      const execute = jest.spyOn(readService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: '<log></log>', stderr: '' });
+
+      await readService.log('trunk', { verbose: true, search: ['fix*', 'jane'], searchAnd: ['*parser*'], useMergeHistory: true, withAllRevprops: true });
+
+      expect(execute.mock.calls[0][0]).toEqual(
+        expect.arrayContaining(['log', '--xml', '--verbose', '--search', 'fix*', '--search', 'jane', '--search-and', '*parser*', '--use-merge-history', '--with-all-revprops', 'trunk']),
+      );
+    });
+
+    it('should resolve only the first of several targets against repositoryUrl', async () => {
+      const execute = jest.spyOn(readService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: '<log></log>', stderr: '' });
+
+      await readService.log(['trunk', 'src/a.ts', 'docs/user@example.md'], { repositoryUrl: 'file:///srv/repo', search: 'fix' });
+
+      expect((execute.mock.calls[0][0] as string[]).slice(-3)).toEqual(['file:///srv/repo/trunk', 'src/a.ts', 'docs/user@example.md@']);
+    });
+
+    it('should keep paths after a URL in POSIX form even where local paths use backslashes', async () => {
+      const execute = jest.spyOn(readService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: '<log></log>', stderr: '' });
+      jest.spyOn(readService as any, 'resolvePath').mockImplementation((localPath: string) => (localPath.includes('://') ? localPath : path.win32.normalize(localPath)));
+
+      await readService.log(['file:///srv/repo/trunk', 'src/./a/b.ts', 'c/d'], { search: 'fix' });
+
+      expect((execute.mock.calls[0][0] as string[]).slice(-3)).toEqual(['file:///srv/repo/trunk', 'src/a/b.ts', 'c/d']);
+    });
+
+    it('should pass date ranges and pegged targets', async () => {
+      const execute = jest.spyOn(readService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: '<log></log>', stderr: '' });
+
+      await readService.log({ path: 'trunk/removed.txt', pegRevision: 'PREV' }, { repositoryUrl: 'file:///srv/repo', revision: { start: new Date('2024-01-01T00:00:00Z'), end: '{2024-02-01}' } });
+
+      expect(execute.mock.calls[0][0]).toEqual(expect.arrayContaining(['--revision', '{2024-01-01T00:00:00.000Z}:{2024-02-01}', 'file:///srv/repo/trunk/removed.txt@PREV']));
+    });
+  });
+
+  describe('status', () => {
+    it('should parse entries of targets and changelists whatever the attribute order', () => {
+      const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<status>
+<target path=".">
+<entry path="new.txt">
+<wc-status props="none" item="unversioned"></wc-status>
+</entry>
+<entry path="a.txt">
+<wc-status revision="7" props="none" item="modified">
+<commit revision="5"><author>jane</author><date>2024-01-01T00:00:00.000000Z</date></commit>
+</wc-status>
+</entry>
+</target>
+<changelist name="review">
+<entry path="b.txt">
+<wc-status item="added" revision="-1" props="none"></wc-status>
+</entry>
+</changelist>
+</status>`;
+
+      expect((readService as any).parseStatusOutput(xml)).toEqual([
+        { path: 'new.txt', status: '?' },
+        { path: 'a.txt', status: 'M', workingRevision: '7', lastChangedRevision: '5', lastChangedAuthor: 'jane', lastChangedDate: '2024-01-01T00:00:00.000000Z' },
+        { path: 'b.txt', status: 'A' },
+      ]);
+    });
+  });
+
+  describe('locks', () => {
+    it('should report working copy and repository locks on status entries', () => {
+      const xml = `<status><target path="."><entry path="logo.psd">
+<wc-status item="normal" revision="8" props="normal">
+<commit revision="8"><author>jane</author><date>2024-01-01T00:00:00.000000Z</date></commit>
+<lock><token>opaquelocktoken:a</token><owner>jane</owner><comment>retouching</comment><created>2024-01-02T00:00:00.000000Z</created></lock>
+</wc-status>
+<repos-status item="none" props="none">
+<lock><token>opaquelocktoken:b</token><owner>joe</owner><created>2024-01-03T00:00:00.000000Z</created><expires>2024-02-03T00:00:00.000000Z</expires></lock>
+</repos-status>
+</entry></target></status>`;
+
+      const [entry] = (readService as any).parseStatusOutput(xml);
+
+      expect(entry.lock).toEqual({ token: 'opaquelocktoken:a', owner: 'jane', comment: 'retouching', created: '2024-01-02T00:00:00.000000Z' });
+      expect(entry.repositoryLock).toEqual({ token: 'opaquelocktoken:b', owner: 'joe', created: '2024-01-03T00:00:00.000000Z', expires: '2024-02-03T00:00:00.000000Z' });
+    });
+
+    it('should list locked files below a URL', async () => {
+      const xml = `<lists><list path="file:///srv/repo/trunk"><entry kind="dir"><name>art</name></entry><entry kind="file"><name>art/logo.psd</name><lock><token>t</token><owner>jane</owner></lock></entry><entry kind="file"><name>art/free.png</name></entry></list></lists>`;
+      const execute = jest.spyOn(readService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: xml, stderr: '' });
+
+      const locks = await readService.listLocks('file:///srv/repo/trunk');
+
+      expect(execute.mock.calls[0][0]).toEqual(expect.arrayContaining(['list', '--xml', '--recursive', 'file:///srv/repo/trunk']));
+      expect(locks.map((entry) => [entry.name, entry.lock.owner])).toEqual([['art/logo.psd', 'jane']]);
+    });
+  });
+
+  describe('list', () => {
+    it('should decode entry names of every listed target', () => {
+      const xml = `<lists><list path="^/trunk"><entry kind="file"><name>R&amp;D.txt</name></entry></list><list path="^/branches"><entry kind="dir"><name>b1</name></entry></list></lists>`;
+
+      expect((readService as any).parseListOutput(xml)).toEqual(['R&D.txt', 'b1']);
+    });
+
+    it('should return detailed entries for several targets including externals', async () => {
+      const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<lists>
+<list
+   path="file:///srv/repo/trunk">
+<entry
+   kind="file">
+<name>a.txt</name>
+<size>42</size>
+<commit
+   revision="7">
+<author>jane</author>
+<date>2024-01-01T00:00:00.000000Z</date>
+</commit>
+<lock>
+<token>opaquelocktoken:1</token>
+<owner>jane</owner>
+<created>2024-01-02T00:00:00.000000Z</created>
+</lock>
+</entry>
+<entry
+   kind="dir">
+<name>lib</name>
+<commit
+   revision="3">
+<author>joe</author>
+<date>2023-12-01T00:00:00.000000Z</date>
+</commit>
+</entry>
+</list>
+<external
+   parent_url="file:///srv/repo/trunk"
+   target="lib">
+<list
+   path="file:///srv/other/lib">
+<entry
+   kind="file">
+<name>x.c</name>
+<size>1</size>
+<commit
+   revision="2">
+<author>ext</author>
+<date>2023-01-01T00:00:00.000000Z</date>
+</commit>
+</entry>
+</list>
+</external>
+</lists>`;
+      const execute = jest.spyOn(readService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: xml, stderr: '' });
+
+      const entries = await readService.listEntries(['file:///srv/repo/trunk', 'file:///srv/repo/tags'], { includeExternals: true });
+
+      expect(execute.mock.calls[0][0]).toEqual(expect.arrayContaining(['list', '--xml', '--include-externals', 'file:///srv/repo/trunk', 'file:///srv/repo/tags']));
+      expect(entries).toEqual([
+        {
+          name: 'a.txt',
+          target: 'file:///srv/repo/trunk',
+          kind: 'file',
+          size: 42,
+          lastChangedRevision: '7',
+          lastChangedAuthor: 'jane',
+          lastChangedDate: '2024-01-01T00:00:00.000000Z',
+          lock: { token: 'opaquelocktoken:1', owner: 'jane', created: '2024-01-02T00:00:00.000000Z' },
+        },
+        { name: 'lib', target: 'file:///srv/repo/trunk', kind: 'dir', lastChangedRevision: '3', lastChangedAuthor: 'joe', lastChangedDate: '2023-12-01T00:00:00.000000Z' },
+        {
+          name: 'x.c',
+          target: 'file:///srv/other/lib',
+          kind: 'file',
+          size: 1,
+          lastChangedRevision: '2',
+          lastChangedAuthor: 'ext',
+          lastChangedDate: '2023-01-01T00:00:00.000000Z',
+          externalParentUrl: 'file:///srv/repo/trunk',
+          externalTarget: 'lib',
+        },
+      ]);
+    });
+  });
+
+  describe('blame', () => {
+    it('should join blame entries with the file text read at the same revision', async () => {
+      const blameXml = `<?xml version="1.0" encoding="UTF-8"?>
+<blame>
+<target
+   path="file:///srv/repo/trunk/a.txt">
+<entry
+   line-number="1">
+<commit
+   revision="3">
+<author>jane</author>
+<date>2024-01-01T00:00:00.000000Z</date>
+</commit>
+</entry>
+<entry
+   line-number="2">
+<commit
+   revision="9">
+<author>joe</author>
+<date>2024-02-01T00:00:00.000000Z</date>
+</commit>
+<merged
+   path="/branches/feature/a.txt">
+<commit
+   revision="7">
+<author>ann</author>
+<date>2024-01-15T00:00:00.000000Z</date>
+</commit>
+</merged>
+</entry>
+</target>
+</blame>`;
+      const execute = jest.spyOn(readService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: blameXml, stderr: '' });
+      const stream = jest.spyOn(readService as any, 'executeStream').mockReturnValueOnce(Readable.from([Buffer.from('first\r\nsecond\n')]));
+
+      const lines = await readService.blame('file:///srv/repo/trunk/a.txt', { startRevision: 2, useMergeHistory: true, ignoreWhitespace: true });
+
+      expect(execute.mock.calls[0][0]).toEqual(expect.arrayContaining(['blame', '--xml', '--revision', '2:HEAD', '--use-merge-history', '--extensions', '-w', 'file:///srv/repo/trunk/a.txt']));
+      expect(stream.mock.calls[0][0]).toEqual(expect.arrayContaining(['cat', 'file:///srv/repo/trunk/a.txt']));
+      expect(lines).toEqual([
+        { lineNumber: 1, text: 'first', revision: '3', author: 'jane', date: '2024-01-01T00:00:00.000000Z' },
+        {
+          lineNumber: 2,
+          text: 'second',
+          revision: '9',
+          author: 'joe',
+          date: '2024-02-01T00:00:00.000000Z',
+          merged: { path: '/branches/feature/a.txt', revision: '7', author: 'ann', date: '2024-01-15T00:00:00.000000Z' },
+        },
+      ]);
+    });
+
+    it('should annotate working copy files up to BASE when only a start revision is given', async () => {
+      const execute = jest
+        .spyOn(readService as any, 'executeCommand')
+        .mockResolvedValueOnce({ success: true, stdout: '<blame><target path="a.txt"><entry line-number="1"></entry></target></blame>', stderr: '' });
+      jest.spyOn(readService as any, 'executeStream').mockReturnValueOnce(Readable.from([Buffer.from('local edit\n')]));
+
+      const lines = await readService.blame('a.txt', { startRevision: 5 });
+
+      expect(execute.mock.calls[0][0]).toEqual(expect.arrayContaining(['--revision', '5:BASE']));
+      expect(lines).toEqual([{ lineNumber: 1, text: 'local edit' }]);
+    });
+
+    it('should keep leading blank lines and indentation of the file text', async () => {
+      const entries = [1, 2, 3].map((lineNumber) => `<entry line-number="${lineNumber}"><commit revision="${lineNumber}"></commit></entry>`).join('');
+      jest.spyOn(readService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: `<blame><target path="a.txt">${entries}</target></blame>`, stderr: '' });
+      jest.spyOn(readService as any, 'executeStream').mockReturnValueOnce(Readable.from([Buffer.from('\n    indented\nlast\n')]));
+
+      const lines = await readService.blame('a.txt');
+
+      expect(lines.map((line) => [line.revision, line.text])).toEqual([
+        ['1', ''],
+        ['2', '    indented'],
+        ['3', 'last'],
+      ]);
+    });
+
+    it('should resolve with no lines when reading the file text fails in result mode', async () => {
+      const failingCat = new PassThrough();
+      jest.spyOn(readService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: '<blame><target path="a.txt"><entry line-number="1"></entry></target></blame>', stderr: '' });
+      jest.spyOn(readService as any, 'executeStream').mockReturnValue(failingCat);
+      process.nextTick(() => failingCat.destroy(new SvnPathNotFoundError("E160013: '/trunk/a.txt' path not found")));
+
+      await expect(readService.blame('a.txt', { errorMode: 'result' })).resolves.toEqual([]);
+    });
+
+    it('should reject when reading the file text fails in throw mode', async () => {
+      const failingCat = new PassThrough();
+      jest.spyOn(readService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: '<blame><target path="a.txt"><entry line-number="1"></entry></target></blame>', stderr: '' });
+      jest.spyOn(readService as any, 'executeStream').mockReturnValue(failingCat);
+      process.nextTick(() => failingCat.destroy(new SvnPathNotFoundError("E160013: '/trunk/a.txt' path not found")));
+
+      await expect(readService.blame('a.txt', { errorMode: 'throw' })).rejects.toBeInstanceOf(SvnPathNotFoundError);
+    });
+  });
+
+  describe('properties', () => {
+    it('should list properties of every target with base64 values decoded', async () => {
+      const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<properties>
+<target
+   path="trunk">
+<property
+   name="svn:ignore">*.log
+dist
+</property>
+<property
+   name="svn:externals">^/vendor/lib lib</property>
+</target>
+<target
+   path="trunk/logo.png">
+<property
+   name="svn:mime-type">image/png</property>
+<property
+   encoding="base64"
+   name="note">AWJpbmFyeQ==</property>
+</target>
+</properties>`;
+      const execute = jest.spyOn(readService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: xml, stderr: '' });
+
+      const targets = await readService.propList('trunk', { depth: 'files' });
+
+      expect(execute.mock.calls[0][0]).toEqual(expect.arrayContaining(['proplist', '--xml', '--verbose', '--depth', 'files', 'trunk']));
+      expect(targets).toEqual([
+        { path: 'trunk', properties: { 'svn:ignore': '*.log\ndist\n', 'svn:externals': '^/vendor/lib lib' } },
+        { path: 'trunk/logo.png', properties: { 'svn:mime-type': 'image/png', note: '\u0001binary' }, binaryProperties: { note: Buffer.from([0x01, ...Buffer.from('binary')]) } },
+      ]);
+    });
+
+    it('should keep the exact bytes of binary values that are not valid UTF-8', async () => {
+      const xml = `<properties><target path="logo.png"><property encoding="base64" name="thumb">//4AgQ==</property></target></properties>`;
+      jest.spyOn(readService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: xml, stderr: '' });
+
+      const [target] = await readService.propList('logo.png');
+
+      expect(target.binaryProperties?.thumb).toEqual(Buffer.from([0xff, 0xfe, 0x00, 0x81]));
+    });
+
+    it('should pass the property name verbatim and return its value', async () => {
+      const xml = `<properties><target path="file:///srv/repo/trunk"><property name="svn:ignore">*.tmp</property></target></properties>`;
+      const execute = jest.spyOn(readService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: xml, stderr: '' });
+
+      const value = await readService.propGet('svn:ignore', 'trunk', { repositoryUrl: 'file:///srv/repo', revision: 4 });
+
+      expect((execute.mock.calls[0][0] as string[]).slice(0, 2)).toEqual(['propget', 'svn:ignore']);
+      expect(execute.mock.calls[0][0]).toEqual(expect.arrayContaining(['--revision', '4', 'file:///srv/repo/trunk']));
+      expect(value).toBe('*.tmp');
+    });
+
+    it('should return null when the property is not set', async () => {
+      jest.spyOn(readService as any, 'executeCommand').mockResolvedValueOnce({
+        success: false,
+        stdout: '',
+        stderr: "svn: warning: W200017: Property 'x' not found on 'a.txt'\nsvn: E200000: A problem occurred; see other errors for details",
+      });
+
+      await expect(readService.propGet('x', 'a.txt', { errorMode: 'throw' })).resolves.toBeNull();
+    });
+  });
+
+  describe('revprops', () => {
+    it('should list the revision properties of a revision', async () => {
+      const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<properties>
+<revprops
+   rev="12">
+<property
+   name="svn:author">jane</property>
+<property
+   name="ticket">PRJ-42</property>
+</revprops>
+</properties>`;
+      const execute = jest.spyOn(readService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: xml, stderr: '' });
+
+      const revprops = await readService.revpropList(12, 'file:///srv/repo');
+
+      expect(execute.mock.calls[0][0]).toEqual(expect.arrayContaining(['proplist', '--revprop', '--xml', '--revision', '12', 'file:///srv/repo']));
+      expect(revprops).toEqual({ 'svn:author': 'jane', ticket: 'PRJ-42' });
+    });
+
+    it('should get a single revision property', async () => {
+      const xml = `<properties><revprops rev="12"><property name="ticket">PRJ-42</property></revprops></properties>`;
+      const execute = jest.spyOn(readService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: xml, stderr: '' });
+
+      await expect(readService.revpropGet('ticket', 12, 'file:///srv/repo')).resolves.toBe('PRJ-42');
+      expect((execute.mock.calls[0][0] as string[]).slice(0, 2)).toEqual(['propget', 'ticket']);
+    });
+
+    it('should default the revision property target to repositoryUrl, or the working copy', async () => {
+      const xml = `<properties><revprops rev="5"><property name="ticket">PRJ-7</property></revprops></properties>`;
+      const execute = jest.spyOn(readService as any, 'executeCommand').mockResolvedValue({ success: true, stdout: xml, stderr: '' });
+
+      await readService.revpropList(5, undefined, { repositoryUrl: 'file:///srv/repo' });
+      await readService.revpropGet('ticket', 5, undefined, { repositoryUrl: 'file:///srv/repo' });
+      await readService.revpropList(5);
+
+      expect((execute.mock.calls[0][0] as string[]).slice(-1)).toEqual(['file:///srv/repo']);
+      expect((execute.mock.calls[1][0] as string[]).slice(-1)).toEqual(['file:///srv/repo']);
+      expect((execute.mock.calls[2][0] as string[]).slice(-1)).toEqual(['.']);
+    });
+
+    it('should request revprops in log and keep the standard fields', async () => {
+      const xml = `<log><logentry revision="12"><author>jane</author><date>2024-01-01T00:00:00.000000Z</date><msg>Fix</msg><revprops><property name="svn:author">jane</property><property name="svn:date">2024-01-01T00:00:00.000000Z</property><property name="svn:log">Fix</property><property name="ticket">PRJ-42</property></revprops></logentry></log>`;
+      const execute = jest.spyOn(readService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: xml, stderr: '' });
+
+      const [entry] = await readService.log('file:///srv/repo', { withRevprops: ['ticket'] });
+
+      const args = execute.mock.calls[0][0] as string[];
+      expect(args.filter((arg, index) => args[index - 1] === '--with-revprop')).toEqual(['svn:author', 'svn:date', 'svn:log', 'ticket']);
+      expect(entry.author).toBe('jane');
+      expect(entry.message).toBe('Fix');
+      expect(entry.revprops.ticket).toBe('PRJ-42');
+    });
+  });
+
+  describe('mergeinfo', () => {
+    it('should list eligible revisions including non-inheritable ones', async () => {
+      const execute = jest.spyOn(readService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: 'r5\nr7*\nr12\n', stderr: '' });
+
+      const revisions = await readService.mergeinfo('trunk', 'wc', { repositoryUrl: 'file:///srv/repo', showRevs: 'eligible' });
+
+      const args = execute.mock.calls[0][0] as string[];
+      expect(args).toEqual(expect.arrayContaining(['mergeinfo', '--show-revs', 'eligible']));
+      expect(args.slice(-2)).toEqual(['file:///srv/repo/trunk', 'wc']);
+      expect(revisions).toEqual([5, 7, 12]);
+    });
+
+    it('should list merged revisions by default', async () => {
+      const execute = jest.spyOn(readService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: '', stderr: '' });
+
+      await expect(readService.mergeinfo('file:///srv/repo/trunk')).resolves.toEqual([]);
+      expect(execute.mock.calls[0][0]).toEqual(expect.arrayContaining(['--show-revs', 'merged']));
+    });
+
+    it('should read CRLF output of Windows clients', async () => {
+      jest.spyOn(readService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: 'r5\r\nr7*\r\nr12', stderr: '' });
+
+      await expect(readService.mergeinfo('file:///srv/repo/trunk')).resolves.toEqual([5, 7, 12]);
+    });
+  });
+
+  describe('cat', () => {
+    const propertiesXml = (properties: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<properties>
+<target
+   path="file:///srv/repo/trunk/logo.png">
+${properties}
+</target>
+</properties>`;
+
+    it('should return the exact bytes including trailing newlines', async () => {
+      const bytes = [Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]), Buffer.from('\r\n\n')];
+      jest.spyOn(readService as any, 'executeStream').mockReturnValueOnce(Readable.from(bytes));
+
+      await expect(readService.catBuffer('trunk/logo.png')).resolves.toEqual(Buffer.concat(bytes));
+    });
+
+    it('should reject with the svn error instead of returning empty content', async () => {
+      const stream = new PassThrough();
+      jest.spyOn(readService as any, 'executeStream').mockReturnValueOnce(stream);
+      process.nextTick(() => stream.destroy(new SvnPathNotFoundError("path 'trunk/missing.txt' not found")));
+
+      await expect(readService.catBuffer('trunk/missing.txt')).rejects.toBeInstanceOf(SvnPathNotFoundError);
+    });
+
+    it('should append peg revisions without URL encoding them', async () => {
+      const stream = jest.spyOn(readService as any, 'executeStream').mockImplementation(() => Readable.from([]));
+
+      await readService.catBuffer('trunk/moved.txt', { repositoryUrl: 'file:///srv/repo', revision: '3', pegRevision: 7, ignoreKeywords: true });
+      await readService.catBuffer('docs/user@example.txt');
+      await readService.catBuffer({ path: 'trunk/deleted.txt', pegRevision: 5 }, { pegRevision: new Date('2024-01-01T00:00:00Z') });
+
+      expect(stream.mock.calls[0][0]).toEqual(['cat', '--non-interactive', '--revision', '3', '--ignore-keywords', 'file:///srv/repo/trunk/moved.txt@7']);
+      expect(stream.mock.calls[1][0]).toContain('docs/user@example.txt@');
+      expect(stream.mock.calls[2][0]).toContain('trunk/deleted.txt@{2024-01-01T00:00:00.000Z}');
+    });
+
+    it('should not decode binary files as text', async () => {
+      jest.spyOn(readService as any, 'executeStream').mockReturnValueOnce(Readable.from([Buffer.from([0xff, 0xfe])]));
+      jest.spyOn(readService as any, 'executeCommand').mockResolvedValueOnce({
+        success: true,
+        stdout: propertiesXml('<property\n   name="svn:mime-type">image/png</property>'),
+        stderr: '',
+      });
+
+      await expect(readService.catFile('trunk/logo.png')).resolves.toEqual({ content: Buffer.from([0xff, 0xfe]), mimeType: 'image/png', binary: true });
+    });
+
+    it('should decode text files and report their eol style', async () => {
+      jest.spyOn(readService as any, 'executeStream').mockReturnValueOnce(Readable.from([Buffer.from('a\nb\n')]));
+      jest.spyOn(readService as any, 'executeCommand').mockResolvedValueOnce({
+        success: true,
+        stdout: propertiesXml('<property\n   name="svn:mime-type">text/plain; charset=utf-8</property>\n<property\n   name="svn:eol-style">native</property>'),
+        stderr: '',
+      });
+
+      const file = await readService.catFile('trunk/a.txt');
+
+      expect(file).toMatchObject({ mimeType: 'text/plain; charset=utf-8', eolStyle: 'native', binary: false, text: 'a\nb\n' });
+    });
+  });
+
+  describe('diff', () => {
+    it('should render side-by-side rows and HTML from the diff output', async () => {
+      const stdout = [
+        'Index: a.txt',
+        '===================================================================',
+        '--- a.txt\t(revision 4)',
+        '+++ a.txt\t(working copy)',
+        '@@ -1 +1 @@',
+        '-let x = 1;',
+        '+let x = 2;',
+      ].join('\n');
+      jest.spyOn(readService as any, 'executeStream').mockImplementation(() => Readable.from([Buffer.from(stdout)]));
+
+      const [file] = await readService.diffSideBySide('a.txt');
+      const html = await readService.diffHtml('a.txt');
+
+      expect(file.hunks[0].rows).toEqual([expect.objectContaining({ type: 'modified', left: expect.objectContaining({ lineNumber: 1 }), right: expect.objectContaining({ lineNumber: 1 }) })]);
+      expect(html).toContain('let x = <del>1</del>;');
+      expect(html).toContain('let x = <ins>2</ins>;');
+    });
+
+    it('should parse summarize output whatever the attribute order', async () => {
+      const stdout = `<?xml version="1.0" encoding="UTF-8"?>
+<diff>
+<paths>
+<path
+   item="modified"
+   props="none"
+   kind="file">file:///srv/repo/trunk/R&amp;D.txt</path>
+<path
+   kind="dir"
+   props="modified"
+   item="none">file:///srv/repo/trunk/src</path>
+<path
+   props="none"
+   kind="file"
+   item="added">file:///srv/repo/trunk/new.txt</path>
+</paths>
+</diff>`;
+      const execute = jest.spyOn(readService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout, stderr: '' });
+
+      const summary = await readService.diffSummarize('trunk', undefined, { repositoryUrl: 'file:///srv/repo', change: 12 });
+
+      expect(execute.mock.calls[0][0]).toEqual(['diff', '--non-interactive', '--summarize', '--xml', '--change', '12', 'file:///srv/repo/trunk']);
+      expect(summary).toEqual([
+        { path: 'file:///srv/repo/trunk/R&D.txt', item: 'modified', props: 'none', kind: 'file' },
+        { path: 'file:///srv/repo/trunk/src', item: 'none', props: 'modified', kind: 'dir' },
+        { path: 'file:///srv/repo/trunk/new.txt', item: 'added', props: 'none', kind: 'file' },
+      ]);
+    });
+
+    it('should pass diff options with extensions combined into one value', async () => {
+      const execute = jest.spyOn(readService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: '', stderr: '' });
+
+      await readService.diff(undefined, undefined, {
+        ignoreWhitespace: true,
+        ignoreEolStyle: true,
+        contextLines: 5,
+        changelist: 'review',
+        depth: 'files',
+        noDiffAdded: true,
+        noDiffDeleted: true,
+        ignoreProperties: true,
+        showCopiesAsAdds: true,
+        git: true,
+      });
+
+      expect(execute.mock.calls[0][0]).toEqual([
+        'diff',
+        '--non-interactive',
+        '--extensions',
+        '-w --ignore-eol-style -U 5',
+        '--depth',
+        'files',
+        '--changelist',
+        'review',
+        '--git',
+        '--no-diff-added',
+        '--no-diff-deleted',
+        '--ignore-properties',
+        '--show-copies-as-adds',
+      ]);
+    });
+
+    it('should prefer --change over revision ranges and pass properties-only', async () => {
+      const execute = jest.spyOn(readService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: '', stderr: '' });
+
+      await readService.diff('trunk', undefined, { change: -7, oldRevision: '1', newRevision: '2', propertiesOnly: true });
+
+      expect(execute.mock.calls[0][0]).toEqual(['diff', '--non-interactive', '--change', '-7', '--properties-only', 'trunk']);
+    });
+
+    it('should parse the diff into files and pass --git', async () => {
+      const stdout = [
+        'Index: trunk/a.txt',
+        '===================================================================',
+        'diff --git a/trunk/a.txt b/trunk/a.txt',
+        '--- a/trunk/a.txt\t(revision 4)',
+        '+++ b/trunk/a.txt\t(revision 5)',
+        '@@ -1 +1 @@',
+        '-a',
+        '+b',
+      ].join('\n');
+      const execute = jest.spyOn(readService as any, 'executeStream').mockReturnValueOnce(Readable.from([Buffer.from(stdout)]));
+
+      const files = await readService.diffStructured('trunk/a.txt', undefined, { repositoryUrl: 'file:///srv/repo', oldRevision: '4', newRevision: '5', git: true });
+
+      expect(execute.mock.calls[0][0]).toEqual(expect.arrayContaining(['diff', '--revision', '4:5', '--git', 'file:///srv/repo/trunk/a.txt']));
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatchObject({ path: 'trunk/a.txt', oldRevision: 4, newRevision: 5, modified: true, additions: 1, deletions: 1 });
+    });
+
+    it('should parse the untrimmed output, keeping trailing whitespace and blank context lines', async () => {
+      const stdout = ['Index: a.txt', '--- a.txt\t(revision 1)', '+++ a.txt\t(working copy)', '@@ -1,3 +1,3 @@', '-x', '+x ', '  ', ' ', ''].join('\n');
+      jest.spyOn(readService as any, 'executeStream').mockReturnValueOnce(Readable.from([Buffer.from(stdout)]));
+
+      const [file] = await readService.diffStructured('a.txt');
+
+      expect(file.hunks[0].lines).toEqual([
+        { type: 'deleted', content: 'x', oldLineNumber: 1 },
+        { type: 'added', content: 'x ', newLineNumber: 1 },
+        { type: 'context', content: ' ', oldLineNumber: 2, newLineNumber: 2 },
+        { type: 'context', content: '', oldLineNumber: 3, newLineNumber: 3 },
+      ]);
+    });
+
+    it('should return no files when the diff fails', async () => {
+      const stream = new PassThrough();
+      jest.spyOn(readService as any, 'executeStream').mockReturnValueOnce(stream);
+      process.nextTick(() => stream.destroy(new SvnPathNotFoundError("path 'missing' not found")));
+
+      await expect(readService.diffStructured('missing')).resolves.toEqual([]);
+    });
+  });
+});
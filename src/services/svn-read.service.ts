@@ -1,16 +1,42 @@
 import { Injectable } from '@nestjs/common';
+import * as path from 'path';
+import type { Readable } from 'stream';
 import { SvnBaseService } from './svn-base.service';
+import { parseXml } from '../utils/xml-parser';
+import type { XmlElement } from '../utils/xml-parser';
+import { parseUnifiedDiff } from '../utils/diff-parser';
+import { renderDiffHtml, renderSideBySide } from '../utils/diff-renderer';
+import { SvnCancelledError, SvnNotWorkingCopyError, SvnTimeoutError } from '../errors/svn.error';
+import type { SvnError } from '../errors/svn.error';
 import type {
   SvnOptions,
   SvnStatusResult,
+  SvnInfoOptions,
   SvnInfoResult,
+  SvnConflictInfo,
+  SvnLockInfo,
+  SvnListEntry,
   SvnLogEntry,
   SvnLogOptions,
+  SvnLogPath,
   SvnListOptions,
   SvnCatOptions,
+  SvnCatResult,
+  SvnDiffFile,
+  SvnDiffSummary,
+  SvnSideBySideFile,
+  SvnBlameOptions,
+  SvnMergeinfoOptions,
+  SvnBlameLine,
+  SvnPropListOptions,
+  SvnPropGetOptions,
+  SvnPropertyTarget,
   SvnDiffOptions,
   SvnExportOptions,
   SvnCommandResult,
+  SvnPegTarget,
+  SvnRevision,
+  SvnTarget,
 } from '../interfaces/svn-options.interface';
 
 /**
@@ -36,6 +62,21 @@ const STATUS_MAP: Record<string, string> = {
  */
 const INVALID_REVISION = '-1';
 
+/**
+ * Revision properties svn log reports by default (author, date, message)
+ */
+const LOG_STANDARD_REVPROPS = ['svn:author', 'svn:date', 'svn:log'];
+
+/**
+ * Mime types svn handles as text although they do not start with text/ (svn_mime_type_is_binary)
+ */
+const TEXT_MIME_TYPES = ['image/x-xbitmap', 'image/x-xpixmap'];
+
+/**
+ * Warning printed by svn 1.9+ when a requested property is not set
+ */
+const PROPERTY_NOT_FOUND_WARNING = 'W200017';
+
 @Injectable()
 export class SvnReadService extends SvnBaseService {
   constructor() {
@@ -46,19 +87,34 @@ export class SvnReadService extends SvnBaseService {
    * SVN Info
    * Get information about a working copy path or URL
    */
-  async info(path?: string, options: SvnOptions = {}): Promise<SvnInfoResult | null> {
-    const args = this.buildPathArgs(path);
-    const [command, mergedOptions] = this.buildSvnArgs('info', args, options);
+  async info(path?: SvnTarget, options: SvnInfoOptions = {}): Promise<SvnInfoResult | null> {
+    const entries = await this.infoEntries(this.buildPathArgs(path), options);
+
+    return entries[0] || null;
+  }
+
+  /**
+   * SVN Info (multiple targets)
+   * Get information about several working copy paths or URLs, optionally with depth
+   */
+  async infoEntries(paths: SvnTarget | SvnTarget[] = [], options: SvnInfoOptions = {}): Promise<SvnInfoResult[]> {
+    const targets = Array.isArray(paths) ? paths : [paths];
+    const args = ['--xml', ...this.buildRevisionArgs(options.revision), ...this.buildRecursiveDepthArgs(options), ...targets];
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('info', args, options);
 
-    const result = await this.executeCommand(command, mergedOptions);
+    const result = await this.executeCommand(svnArgs, mergedOptions);
 
     if (!result.success) {
-      this.logger.warn(`Info command failed: ${result.stderr}`);
+      this.throwIfAborted(result, mergedOptions);
+      this.logger.warn(`Info command failed: ${result.error?.message || result.stderr}`);
 
-      return null;
+      return [];
     }
 
-    return this.parseInfoOutput(result.stdout);
+    const entries = this.parseInfoOutput(result.stdout);
+    await this.fillRepositorySizes(entries, options);
+
+    return entries;
   }
 
   /**
@@ -67,12 +123,13 @@ export class SvnReadService extends SvnBaseService {
    */
   async status(path?: string, options: SvnOptions = {}): Promise<SvnStatusResult[]> {
     const args = ['--xml', '--show-updates', ...this.buildPathArgs(path)];
-    const [command, mergedOptions] = this.buildSvnArgs('status', args, options);
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('status', args, options);
 
-    const result = await this.executeCommand(command, mergedOptions);
+    const result = await this.executeCommand(svnArgs, mergedOptions);
 
     if (!result.success) {
-      this.logger.warn(`Status command failed: ${result.stderr}`);
+      this.throwIfAborted(result, mergedOptions);
+      this.logger.warn(`Status command failed: ${result.error?.message || result.stderr}`);
 
       return [];
     }
@@ -82,16 +139,16 @@ export class SvnReadService extends SvnBaseService {
 
   /**
    * SVN Log
-   * Show the log messages for a set of paths
+   * Show the log messages of a URL (followed by paths relative to it) or of working copy paths
    */
-  async log(path?: string, options: SvnLogOptions = {}): Promise<SvnLogEntry[]> {
-    const args = ['--xml', ...this.buildLogArgs(options), ...this.buildPathArgs(path)];
-    const [command, mergedOptions] = this.buildSvnArgs('log', args, options);
+  async log(paths?: SvnTarget | SvnTarget[], options: SvnLogOptions = {}): Promise<SvnLogEntry[]> {
+    const [svnArgs, mergedOptions] = this.buildLogCommand(paths, options);
 
-    const result = await this.executeCommand(command, mergedOptions);
+    const result = await this.executeCommand(svnArgs, mergedOptions);
 
     if (!result.success) {
-      this.logger.warn(`Log command failed: ${result.stderr}`);
+      this.throwIfAborted(result, mergedOptions);
+      this.logger.warn(`Log command failed: ${result.error?.message || result.stderr}`);
 
       return [];
     }
@@ -103,14 +160,14 @@ export class SvnReadService extends SvnBaseService {
    * SVN List (ls)
    * List directory entries in the repository
    */
-  async list(path?: string, options: SvnListOptions = {}): Promise<string[]> {
-    const args = ['--xml', ...this.buildListArgs(options), ...this.buildPathArgs(path)];
-    const [command, mergedOptions] = this.buildSvnArgs('list', args, options);
+  async list(path?: SvnTarget, options: SvnListOptions = {}): Promise<string[]> {
+    const [svnArgs, mergedOptions] = this.buildListCommand(this.buildPathArgs(path), options);
 
-    const result = await this.executeCommand(command, mergedOptions);
+    const result = await this.executeCommand(svnArgs, mergedOptions);
 
     if (!result.success) {
-      this.handleListError(result.stderr, path, options);
+      this.throwIfAborted(result, mergedOptions);
+      this.handleListError(result.error, path, options);
 
       return [];
     }
@@ -118,282 +175,900 @@ export class SvnReadService extends SvnBaseService {
     return this.parseListOutput(result.stdout);
   }
 
+  /**
+   * SVN List (detailed entries)
+   * List directory entries of one or more targets with kind, size, last commit and lock
+   */
+  async listEntries(paths: SvnTarget | SvnTarget[] = [], options: SvnListOptions = {}): Promise<SvnListEntry[]> {
+    const targets = Array.isArray(paths) ? paths : [paths];
+    const [svnArgs, mergedOptions] = this.buildListCommand(targets, options);
+
+    const result = await this.executeCommand(svnArgs, mergedOptions);
+
+    if (!result.success) {
+      this.throwIfAborted(result, mergedOptions);
+      this.handleListError(result.error, targets[0], options);
+
+      return [];
+    }
+
+    return this.parseListEntries(result.stdout);
+  }
+
+  /**
+   * List locks
+   * List all locked files below a URL or working copy path (recursive list, filtered to entries with a lock)
+   */
+  async listLocks(path?: string, options: SvnOptions = {}): Promise<SvnListEntry[]> {
+    const entries = await this.listEntries(this.buildPathArgs(path), { ...options, recursive: true });
+
+    return entries.filter((entry) => entry.lock !== undefined);
+  }
+
+  /**
+   * SVN Mergeinfo
+   * List the revisions of a source that are merged into, or eligible for merging into, a target
+   * repositoryUrl only applies to the source; the target is used as given (working copy path or URL, defaults to the current directory)
+   */
+  async mergeinfo(sourcePath: string, targetPath?: string, options: SvnMergeinfoOptions = {}): Promise<number[]> {
+    const source = this.resolvePath(sourcePath, this.mergeOptions(options));
+    const args = ['--show-revs', options.showRevs || 'merged', source, ...this.buildPathArgs(targetPath)];
+
+    const optionsWithoutRepoUrl = { ...options };
+    delete optionsWithoutRepoUrl.repositoryUrl;
+
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('mergeinfo', args, optionsWithoutRepoUrl);
+    const result = await this.executeCommand(svnArgs, mergedOptions);
+
+    if (!result.success) {
+      this.throwIfAborted(result, mergedOptions);
+      this.logger.warn(`Mergeinfo command failed: ${result.error?.message || result.stderr}`);
+
+      return [];
+    }
+
+    // Non-inheritable revisions are marked with a trailing '*'; lines end with CRLF on Windows
+    return result.stdout
+      .split(/\r?\n/)
+      .map((line) => line.trim().match(/^r(\d+)\*?$/))
+      .filter((match) => match !== null)
+      .map((match) => parseInt(match[1], 10));
+  }
+
+  /**
+   * SVN Blame (annotate)
+   * Get the revision, author and date of every line of a file, together with the line text read at the same revision
+   */
+  async blame(path: SvnTarget, options: SvnBlameOptions = {}): Promise<SvnBlameLine[]> {
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('blame', ['--xml', ...this.buildBlameArgs(path, options), path], options);
+
+    const result = await this.executeCommand(svnArgs, mergedOptions);
+
+    if (!result.success) {
+      this.throwIfAborted(result, mergedOptions);
+      this.logger.warn(`Blame command failed: ${result.error?.message || result.stderr}`);
+
+      return [];
+    }
+
+    // Untrimmed content, so leading blank lines and indentation keep their line numbers
+    let content: string;
+    try {
+      content = (await this.catBuffer(path, options)).toString('utf8');
+    } catch (error: unknown) {
+      if (error instanceof SvnCancelledError || error instanceof SvnTimeoutError || mergedOptions.errorMode === 'throw') {
+        throw error;
+      }
+      this.logger.warn(`Blame cat command failed: ${error instanceof Error ? error.message : String(error)}`);
+
+      return [];
+    }
+
+    const lines = content.split(/\r?\n/);
+    if (content.endsWith('\n')) {
+      lines.pop();
+    }
+
+    return this.parseBlameOutput(result.stdout).map((line) => ({ ...line, text: lines[line.lineNumber - 1] ?? '' }));
+  }
+
+  /**
+   * SVN Proplist
+   * List versioned properties with their values on working copy paths or URLs
+   */
+  async propList(path?: SvnTarget, options: SvnPropListOptions = {}): Promise<SvnPropertyTarget[]> {
+    const args = ['--xml', '--verbose', ...this.buildRevisionArgs(options.revision), ...this.buildRecursiveDepthArgs(options), ...this.buildPathArgs(path)];
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('proplist', args, options);
+
+    const result = await this.executeCommand(svnArgs, mergedOptions);
+
+    if (!result.success) {
+      this.throwIfAborted(result, mergedOptions);
+      this.logger.warn(`Proplist command failed: ${result.error?.message || result.stderr}`);
+
+      return [];
+    }
+
+    return this.parsePropertiesOutput(result.stdout);
+  }
+
+  /**
+   * SVN Propget
+   * Get the value of a versioned property, or null when it is not set
+   */
+  async propGet(name: string, path?: SvnTarget, options: SvnPropGetOptions = {}): Promise<string | null> {
+    const args = ['--xml', ...this.buildRevisionArgs(options.revision), ...this.buildPathArgs(path)];
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('propget', args, options, [name]);
+
+    const result = await this.executeCommand(svnArgs, { ...mergedOptions, errorMode: 'result' });
+
+    if (!result.success) {
+      return this.handlePropGetError(result, mergedOptions, 'Propget');
+    }
+
+    const [target] = this.parsePropertiesOutput(result.stdout);
+
+    return target?.properties[name] ?? null;
+  }
+
+  /**
+   * SVN Proplist --revprop
+   * List the revision properties of a revision (path defaults to the working copy, or repositoryUrl)
+   */
+  async revpropList(revision: SvnRevision, path?: string, options: SvnOptions = {}): Promise<Record<string, string>> {
+    const args = ['--revprop', '--xml', '--verbose', ...this.buildRevisionArgs(revision), path ?? '.'];
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('proplist', args, options);
+
+    const result = await this.executeCommand(svnArgs, mergedOptions);
+
+    if (!result.success) {
+      this.throwIfAborted(result, mergedOptions);
+      this.logger.warn(`Revprop list command failed: ${result.error?.message || result.stderr}`);
+
+      return {};
+    }
+
+    return this.parseRevpropsOutput(result.stdout);
+  }
+
+  /**
+   * SVN Propget --revprop
+   * Get a revision property of a revision, or null when it is not set (path defaults to the working copy, or repositoryUrl)
+   */
+  async revpropGet(name: string, revision: SvnRevision, path?: string, options: SvnOptions = {}): Promise<string | null> {
+    const args = ['--revprop', '--xml', ...this.buildRevisionArgs(revision), path ?? '.'];
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('propget', args, options, [name]);
+
+    const result = await this.executeCommand(svnArgs, { ...mergedOptions, errorMode: 'result' });
+
+    if (!result.success) {
+      return this.handlePropGetError(result, mergedOptions, 'Revprop get');
+    }
+
+    return this.parseRevpropsOutput(result.stdout)[name] ?? null;
+  }
+
   /**
    * SVN Cat (read file content)
    * Output the contents of the specified files or URLs
    */
-  async cat(path: string, options: SvnCatOptions = {}): Promise<string> {
-    const args = [...this.buildRevisionArgs(options.revision), path];
-    const [command, mergedOptions] = this.buildSvnArgs('cat', args, options);
+  async cat(path: SvnTarget, options: SvnCatOptions = {}): Promise<string> {
+    const [svnArgs, mergedOptions] = this.buildCatCommand(path, options);
 
-    const result = await this.executeCommand(command, mergedOptions);
+    const result = await this.executeCommand(svnArgs, mergedOptions);
+    this.throwIfAborted(result, mergedOptions);
 
     return result.stdout;
   }
 
+  /**
+   * SVN Cat (binary-safe)
+   * Read the exact bytes of a file; rejects with the typed SvnError instead of returning empty content
+   */
+  async catBuffer(path: SvnTarget, options: SvnCatOptions = {}): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of this.catStream(path, options)) {
+      chunks.push(chunk as Buffer);
+    }
+
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * SVN Cat with svn:mime-type and svn:eol-style
+   * Read the exact bytes of a file together with its content properties; text files are also decoded as UTF-8
+   */
+  async catFile(path: SvnTarget, options: SvnCatOptions = {}): Promise<SvnCatResult> {
+    const content = await this.catBuffer(path, options);
+    const properties = await this.getCatProperties(path, options);
+    const mimeType = properties['svn:mime-type'];
+    const binary = this.isBinaryMimeType(mimeType);
+
+    return this.removeUndefinedFields({
+      content,
+      mimeType,
+      eolStyle: properties['svn:eol-style'],
+      binary,
+      text: binary ? undefined : content.toString('utf8'),
+    });
+  }
+
   /**
    * SVN Diff
    * Display the differences between two paths
    */
-  async diff(path1?: string, path2?: string, options: SvnDiffOptions = {}): Promise<string> {
-    const args = [...this.buildDiffRevisionArgs(options), ...this.buildDiffCmdArgs(options.diffCmd), ...this.buildDiffPathArgs(path1, path2, options)];
-    const [command, mergedOptions] = this.buildSvnArgs('diff', args, options);
+  async diff(path1?: SvnTarget, path2?: SvnTarget, options: SvnDiffOptions = {}): Promise<string> {
+    const [svnArgs, mergedOptions] = this.buildDiffCommand(path1, path2, options);
 
-    const result = await this.executeCommand(command, mergedOptions);
+    const result = await this.executeCommand(svnArgs, mergedOptions);
+    this.throwIfAborted(result, mergedOptions);
 
     return result.stdout;
   }
 
+  /**
+   * SVN Diff (structured)
+   * Parse the diff into files with paths, revisions, change flags, hunks and property changes (svn and --git format)
+   */
+  async diffStructured(path1?: SvnTarget, path2?: SvnTarget, options: SvnDiffOptions = {}): Promise<SvnDiffFile[]> {
+    return parseUnifiedDiff(await this.readDiffOutput(path1, path2, options));
+  }
+
+  /**
+   * SVN Diff (side-by-side)
+   * Pair old and new lines for display, with word-level highlights of modified lines; the result can be served as JSON
+   */
+  async diffSideBySide(path1?: SvnTarget, path2?: SvnTarget, options: SvnDiffOptions = {}): Promise<SvnSideBySideFile[]> {
+    return renderSideBySide(await this.diffStructured(path1, path2, options));
+  }
+
+  /**
+   * SVN Diff (HTML)
+   * Render the side-by-side diff as an HTML fragment with `svn-diff-*` classes
+   */
+  async diffHtml(path1?: SvnTarget, path2?: SvnTarget, options: SvnDiffOptions = {}): Promise<string> {
+    return renderDiffHtml(await this.diffSideBySide(path1, path2, options));
+  }
+
+  /**
+   * SVN Diff --summarize
+   * List changed paths with their content and property change instead of the differences
+   */
+  async diffSummarize(path1?: SvnTarget, path2?: SvnTarget, options: SvnDiffOptions = {}): Promise<SvnDiffSummary[]> {
+    const [svnArgs, mergedOptions] = this.buildDiffCommand(path1, path2, options, ['--summarize', '--xml']);
+
+    const result = await this.executeCommand(svnArgs, mergedOptions);
+
+    if (!result.success) {
+      this.throwIfAborted(result, mergedOptions);
+      this.logger.warn(`Diff summarize command failed: ${result.error?.message || result.stderr}`);
+
+      return [];
+    }
+
+    return this.parseDiffSummaryOutput(result.stdout);
+  }
+
   /**
    * SVN Export
    * Export files from repository to local directory without creating working copy
    */
-  async export(sourcePath: string, localPath: string, options: SvnExportOptions = {}): Promise<SvnCommandResult> {
-    const args = [...this.buildRevisionArgs(options.revision), ...this.buildDepthArgs(options.depth), ...this.buildExportFlags(options), ...this.buildExportPathArgs(sourcePath, localPath, options)];
+  async export(sourcePath: SvnTarget, localPath: string, options: SvnExportOptions = {}): Promise<SvnCommandResult> {
+    const [svnArgs, mergedOptions] = this.buildExportCommand(sourcePath, localPath, options);
 
-    const optionsWithoutRepoUrl = { ...options };
-    delete optionsWithoutRepoUrl.repositoryUrl;
+    return this.executeCommand(svnArgs, mergedOptions);
+  }
 
-    const [command, mergedOptions] = this.buildSvnArgs('export', args, optionsWithoutRepoUrl);
+  // ========== Streaming Operations ==========
 
-    return this.executeCommand(command, mergedOptions);
+  /**
+   * SVN Log (streaming)
+   * Yield log entries one by one as svn writes them, without buffering the whole history
+   */
+  async *logStream(paths?: SvnTarget | SvnTarget[], options: SvnLogOptions = {}): AsyncGenerator<SvnLogEntry> {
+    const [svnArgs, mergedOptions] = this.buildLogCommand(paths, options);
+
+    for await (const element of this.readXmlElements(this.executeStream(svnArgs, mergedOptions), 'logentry')) {
+      yield this.parseLogEntry(element);
+    }
+  }
+
+  /**
+   * SVN List (streaming)
+   * Yield entry names one by one as svn writes them
+   */
+  async *listStream(path?: SvnTarget, options: SvnListOptions = {}): AsyncGenerator<string> {
+    const [svnArgs, mergedOptions] = this.buildListCommand(this.buildPathArgs(path), options);
+
+    for await (const element of this.readXmlElements(this.executeStream(svnArgs, mergedOptions), 'entry')) {
+      const name = element.childText('name');
+      if (name !== undefined) {
+        yield name;
+      }
+    }
+  }
+
+  /**
+   * SVN Cat (streaming)
+   * Stream the raw contents of a file without a buffer ceiling
+   * A failing command destroys the stream with the typed SvnError
+   */
+  catStream(path: SvnTarget, options: SvnCatOptions = {}): Readable {
+    const [svnArgs, mergedOptions] = this.buildCatCommand(path, options);
+
+    return this.executeStream(svnArgs, mergedOptions);
+  }
+
+  /**
+   * SVN Diff (streaming)
+   * Stream the diff output without a buffer ceiling
+   */
+  diffStream(path1?: SvnTarget, path2?: SvnTarget, options: SvnDiffOptions = {}): Readable {
+    const [svnArgs, mergedOptions] = this.buildDiffCommand(path1, path2, options);
+
+    return this.executeStream(svnArgs, mergedOptions);
+  }
+
+  /**
+   * SVN Export (streaming)
+   * Yield output lines (one per exported item) while the export is running
+   */
+  async *exportStream(sourcePath: SvnTarget, localPath: string, options: SvnExportOptions = {}): AsyncGenerator<string> {
+    const [svnArgs, mergedOptions] = this.buildExportCommand(sourcePath, localPath, options);
+
+    yield* this.readLines(this.executeStream(svnArgs, mergedOptions));
   }
 
   /**
    * Parse Status output (XML format)
+   * Entries are read from <target> and <changelist> elements alike
    */
   private parseStatusOutput(xmlOutput: string): SvnStatusResult[] {
-    const results: SvnStatusResult[] = [];
-    const statusMatch = xmlOutput.match(/<status[^>]*>([\s\S]*)<\/status>/);
-
-    if (!statusMatch) {
-      return results;
-    }
-
-    const statusContent = statusMatch[1];
-    const entryMatches = statusContent.matchAll(/<entry[^>]*path="([^"]*)"[^>]*>([\s\S]*?)<\/entry>/g);
-
-    for (const match of entryMatches) {
-      // Decode HTML entities in path (e.g., &amp; -> &)
-      const path = this.decodeHtmlEntities(match[1]);
-      const entryContent = match[2];
-
-      const wcStatusMatch = entryContent.match(/<wc-status[^>]*item="([^"]*)"[^>]*revision="([^"]*)"[^>]*>([\s\S]*?)<\/wc-status>/);
-      let status = ' ';
-      let workingRevision: string | undefined;
-      let lastChangedRevision: string | undefined;
-      let lastChangedAuthor: string | undefined;
-      let lastChangedDate: string | undefined;
-
-      if (wcStatusMatch) {
-        const itemStatus = wcStatusMatch[1];
-        const revision = wcStatusMatch[2];
-        const wcStatusContent = wcStatusMatch[3];
-
-        status = STATUS_MAP[itemStatus] || ' ';
-
-        if (this.isValidRevision(revision)) {
-          workingRevision = revision;
-        }
-
-        const commitMatch = wcStatusContent.match(/<commit[^>]*revision="([^"]*)"[^>]*>([\s\S]*?)<\/commit>/);
-        if (commitMatch) {
-          lastChangedRevision = commitMatch[1];
-          const commitContent = commitMatch[2];
-
-          const authorMatch = commitContent.match(/<author>(.*?)<\/author>/);
-          const dateMatch = commitContent.match(/<date>(.*?)<\/date>/);
-
-          if (authorMatch) {
-            lastChangedAuthor = this.decodeHtmlEntities(authorMatch[1]);
-          }
-          if (dateMatch) {
-            lastChangedDate = dateMatch[1];
-          }
-        }
-      }
+    const status = parseXml(xmlOutput).child('status');
 
-      const reposStatusMatch = entryContent.match(/<repos-status[^>]*item="([^"]*)"[^>]*>([\s\S]*?)<\/repos-status>/);
-      if (reposStatusMatch) {
-        const reposStatusContent = reposStatusMatch[2];
-        const reposCommitMatch = reposStatusContent.match(/<commit[^>]*revision="([^"]*)"[^>]*>([\s\S]*?)<\/commit>/);
-        if (reposCommitMatch && !lastChangedRevision) {
-          lastChangedRevision = reposCommitMatch[1];
-          const reposCommitContent = reposCommitMatch[2];
-
-          const authorMatch = reposCommitContent.match(/<author>(.*?)<\/author>/);
-          const dateMatch = reposCommitContent.match(/<date>(.*?)<\/date>/);
-
-          if (authorMatch && !lastChangedAuthor) {
-            lastChangedAuthor = this.decodeHtmlEntities(authorMatch[1]);
-          }
-          if (dateMatch && !lastChangedDate) {
-            lastChangedDate = dateMatch[1];
-          }
-        }
-      }
+    if (!status) {
+      return [];
+    }
 
-      results.push({
-        path,
-        status: status || ' ',
-        workingRevision,
-        lastChangedRevision,
-        lastChangedAuthor,
-        lastChangedDate,
-      });
+    return status.findAll('entry').map((entry) => this.parseStatusEntry(entry));
+  }
+
+  /**
+   * Parse a status <entry> element
+   * The last commit is taken from wc-status, falling back to repos-status
+   */
+  private parseStatusEntry(entry: XmlElement): SvnStatusResult {
+    const wcStatus = entry.child('wc-status');
+    const reposStatus = entry.child('repos-status');
+    const commit = wcStatus?.child('commit') || reposStatus?.child('commit');
+    const revision = wcStatus?.attr('revision');
+    const lock = wcStatus?.child('lock');
+    const repositoryLock = reposStatus?.child('lock');
+
+    return this.removeUndefinedFields({
+      path: entry.attr('path') || '',
+      status: STATUS_MAP[wcStatus?.attr('item')] || ' ',
+      workingRevision: this.isValidRevision(revision) ? revision : undefined,
+      lastChangedRevision: commit?.attr('revision'),
+      lastChangedAuthor: commit?.childText('author'),
+      lastChangedDate: commit?.childText('date'),
+      lock: lock ? this.parseLockInfo(lock) : undefined,
+      repositoryLock: repositoryLock ? this.parseLockInfo(repositoryLock) : undefined,
+    });
+  }
+
+  /**
+   * Parse Info output (XML)
+   */
+  private parseInfoOutput(xmlOutput: string): SvnInfoResult[] {
+    const info = parseXml(xmlOutput).child('info');
+
+    return info ? info.childrenNamed('entry').map((entry) => this.parseInfoEntry(entry)) : [];
+  }
+
+  /**
+   * Parse an info <entry> element
+   */
+  private parseInfoEntry(entry: XmlElement): SvnInfoResult {
+    const repository = entry.child('repository');
+    const wcInfo = entry.child('wc-info');
+    const commit = entry.child('commit');
+    const lock = entry.child('lock');
+
+    const info: SvnInfoResult = {
+      path: entry.attr('path') || '',
+      url: entry.childText('url') || '',
+      relativeUrl: entry.childText('relative-url') || '',
+      repositoryRoot: repository?.childText('root') || '',
+      repositoryUuid: repository?.childText('uuid') || '',
+      revision: entry.attr('revision') || '',
+      nodeKind: entry.attr('kind') || '',
+    };
+
+    if (wcInfo) {
+      info.workingCopyRoot = wcInfo.childText('wcroot-abspath');
+      info.schedule = wcInfo.childText('schedule');
+      info.depth = wcInfo.childText('depth');
+      info.checksum = wcInfo.childText('checksum');
+      info.textUpdated = wcInfo.childText('text-updated');
+      info.propUpdated = wcInfo.childText('prop-updated');
+      info.changelist = wcInfo.childText('changelist');
+      info.copyFromUrl = wcInfo.childText('copy-from-url');
+      info.copyFromRev = wcInfo.childText('copy-from-rev');
+      info.movedFrom = wcInfo.childText('moved-from');
+      info.movedTo = wcInfo.childText('moved-to');
     }
 
-    return results;
-  }
-
-  /**
-   * Parse Info output
-   */
-  private parseInfoOutput(output: string): SvnInfoResult {
-    const lines = output.split('\n');
-    const info: Partial<SvnInfoResult> = {};
-
-    for (const line of lines) {
-      const colonIndex = line.indexOf(':');
-      if (colonIndex === -1) continue;
-
-      const key = line.substring(0, colonIndex).trim();
-      const value = line.substring(colonIndex + 1).trim();
-
-      if (!value) continue;
-
-      switch (key) {
-        case 'Path':
-          info.path = value;
-          break;
-        case 'URL':
-          info.url = value;
-          break;
-        case 'Relative URL':
-          info.relativeUrl = value;
-          break;
-        case 'Repository Root':
-          info.repositoryRoot = value;
-          break;
-        case 'Repository UUID':
-          info.repositoryUuid = value;
-          break;
-        case 'Revision':
-          info.revision = value;
-          break;
-        case 'Node Kind':
-          info.nodeKind = value;
-          break;
-        case 'Schedule':
-          info.schedule = value;
-          break;
-        case 'Last Changed Author':
-          info.lastChangedAuthor = value;
-          break;
-        case 'Last Changed Rev':
-          info.lastChangedRev = value;
-          break;
-        case 'Last Changed Date':
-          info.lastChangedDate = value;
-          break;
-      }
+    if (commit) {
+      info.lastChangedRev = commit.attr('revision');
+      info.lastChangedAuthor = commit.childText('author');
+      info.lastChangedDate = commit.childText('date');
+    }
+
+    if (lock) {
+      info.lock = this.parseLockInfo(lock);
     }
 
-    return info as SvnInfoResult;
+    const conflicts = this.parseInfoConflicts(entry);
+    if (conflicts.length > 0) {
+      info.conflicts = conflicts;
+    }
+
+    return this.removeUndefinedFields(info);
+  }
+
+  /**
+   * Parse text, property and tree conflicts of an info entry
+   * svn 1.8+ prints <conflict type="..."> elements, tree conflicts are <tree-conflict> elements
+   */
+  private parseInfoConflicts(entry: XmlElement): SvnConflictInfo[] {
+    return entry.findAll('conflict', 'tree-conflict').map((conflict) => {
+      const versions = conflict.childrenNamed('version').map((version) =>
+        this.removeUndefinedFields({
+          side: version.attr('side') || '',
+          kind: version.attr('kind'),
+          pathInRepos: version.attr('path-in-repos'),
+          reposUrl: version.attr('repos-url'),
+          revision: version.attr('revision'),
+        }),
+      );
+
+      return this.removeUndefinedFields({
+        type: conflict.name === 'tree-conflict' ? 'tree' : (conflict.attr('type') as SvnConflictInfo['type']),
+        victim: conflict.attr('victim'),
+        kind: conflict.attr('kind'),
+        operation: conflict.attr('operation'),
+        action: conflict.attr('action'),
+        reason: conflict.attr('reason'),
+        prevBaseFile: conflict.childText('prev-base-file'),
+        prevWcFile: conflict.childText('prev-wc-file'),
+        curBaseFile: conflict.childText('cur-base-file'),
+        propFile: conflict.childText('prop-file'),
+        versions,
+      });
+    });
   }
 
   /**
    * Parse Log output (XML)
    */
   private parseLogOutput(xmlOutput: string): SvnLogEntry[] {
-    const entries: SvnLogEntry[] = [];
-    const logMatch = xmlOutput.match(/<log[^>]*>([\s\S]*)<\/log>/);
-
-    if (!logMatch) {
-      return entries;
-    }
-
-    const logContent = logMatch[1];
-    const entryMatches = logContent.matchAll(/<logentry[^>]*revision="(\d+)"[^>]*>([\s\S]*?)<\/logentry>/g);
-
-    for (const match of entryMatches) {
-      const revision = match[1];
-      const entryContent = match[2];
-
-      const authorMatch = entryContent.match(/<author>(.*?)<\/author>/);
-      const dateMatch = entryContent.match(/<date>(.*?)<\/date>/);
-      const msgMatch = entryContent.match(/<msg>(.*?)<\/msg>/);
-      const pathsMatch = entryContent.match(/<paths>([\s\S]*?)<\/paths>/);
-
-      const entry: SvnLogEntry = {
-        revision,
-        author: authorMatch ? this.decodeHtmlEntities(authorMatch[1]) : '',
-        date: dateMatch ? dateMatch[1] : '',
-        message: msgMatch ? this.decodeHtmlEntities(msgMatch[1]) : '',
-      };
-
-      if (pathsMatch) {
-        const pathsContent = pathsMatch[1];
-        const pathMatches = pathsContent.matchAll(/<path[^>]*action="([^"]*)"[^>]*kind="([^"]*)"[^>]*>(.*?)<\/path>/g);
-        entry.paths = [];
-
-        for (const pathMatch of pathMatches) {
-          entry.paths.push({
-            action: pathMatch[1],
-            kind: pathMatch[2],
-            path: this.decodeHtmlEntities(pathMatch[3]),
-          });
-        }
+    const log = parseXml(xmlOutput).child('log');
+
+    return log ? log.childrenNamed('logentry').map((logEntry) => this.parseLogEntry(logEntry)) : [];
+  }
+
+  /**
+   * Parse a <logentry> element
+   * Messages keep their line breaks; path attributes are read by name, whatever their order
+   */
+  private parseLogEntry(logEntry: XmlElement): SvnLogEntry {
+    const entry: SvnLogEntry = {
+      revision: logEntry.attr('revision') || '',
+      author: logEntry.childText('author') || '',
+      date: logEntry.childText('date') || '',
+      message: logEntry.childText('msg') || '',
+    };
+
+    const revprops = logEntry.child('revprops');
+    if (revprops) {
+      entry.revprops = this.parsePropertyValues(revprops);
+
+      const binaryRevprops = this.parseBinaryPropertyValues(revprops);
+      if (binaryRevprops) {
+        entry.binaryRevprops = binaryRevprops;
       }
+    }
 
-      entries.push(entry);
+    const paths = logEntry.child('paths');
+    if (paths) {
+      entry.paths = paths.childrenNamed('path').map((path) => this.parseLogPath(path));
     }
 
-    return entries;
+    const children = logEntry.childrenNamed('logentry');
+    if (children.length > 0) {
+      entry.children = children.map((child) => this.parseLogEntry(child));
+    }
+
+    const reverseMerge = logEntry.attr('reverse-merge');
+    if (reverseMerge !== undefined) {
+      entry.reverseMerge = reverseMerge === 'true';
+    }
+
+    return entry;
+  }
+
+  /**
+   * Parse a changed <path> of a log entry
+   */
+  private parseLogPath(path: XmlElement): SvnLogPath {
+    const textMods = path.attr('text-mods');
+    const propMods = path.attr('prop-mods');
+
+    return this.removeUndefinedFields({
+      action: path.attr('action') || '',
+      kind: path.attr('kind') || '',
+      path: path.text,
+      textMods: textMods === undefined ? undefined : textMods === 'true',
+      propMods: propMods === undefined ? undefined : propMods === 'true',
+      copyFromPath: path.attr('copyfrom-path'),
+      copyFromRevision: path.attr('copyfrom-rev'),
+    });
+  }
+
+  /**
+   * Parse Blame output (XML)
+   * Line text is filled in by the caller
+   */
+  private parseBlameOutput(xmlOutput: string): SvnBlameLine[] {
+    const blame = parseXml(xmlOutput).child('blame');
+
+    if (!blame) {
+      return [];
+    }
+
+    return blame.findAll('entry').map((entry) => {
+      const commit = entry.child('commit');
+      const merged = entry.child('merged');
+      const mergedCommit = merged?.child('commit');
+
+      return this.removeUndefinedFields({
+        lineNumber: parseInt(entry.attr('line-number') || '0', 10),
+        text: '',
+        revision: commit?.attr('revision'),
+        author: commit?.childText('author'),
+        date: commit?.childText('date'),
+        merged: merged
+          ? this.removeUndefinedFields({
+              path: merged.attr('path') || '',
+              revision: mergedCommit?.attr('revision'),
+              author: mergedCommit?.childText('author'),
+              date: mergedCommit?.childText('date'),
+            })
+          : undefined,
+      });
+    });
+  }
+
+  /**
+   * Parse proplist/propget output (XML)
+   */
+  private parsePropertiesOutput(xmlOutput: string): SvnPropertyTarget[] {
+    const properties = parseXml(xmlOutput).child('properties');
+
+    if (!properties) {
+      return [];
+    }
+
+    return properties.childrenNamed('target').map((target) => {
+      const result: SvnPropertyTarget = { path: target.attr('path') || '', properties: this.parsePropertyValues(target) };
+
+      const binaryProperties = this.parseBinaryPropertyValues(target);
+      if (binaryProperties) {
+        result.binaryProperties = binaryProperties;
+      }
+
+      return result;
+    });
+  }
+
+  /**
+   * Parse revision properties output (XML), properties are nested in a <revprops> element
+   */
+  private parseRevpropsOutput(xmlOutput: string): Record<string, string> {
+    const revprops = parseXml(xmlOutput).child('properties')?.child('revprops');
+
+    return revprops ? this.parsePropertyValues(revprops) : {};
+  }
+
+  /**
+   * Collect the <property> children of an element by name, decoding base64 values
+   */
+  private parsePropertyValues(element: XmlElement): Record<string, string> {
+    return Object.fromEntries(
+      element
+        .childrenNamed('property')
+        .map((property) => [property.attr('name') || '', property.attr('encoding') === 'base64' ? Buffer.from(property.text, 'base64').toString('utf8') : property.text]),
+    );
+  }
+
+  /**
+   * Collect the exact bytes of the base64 encoded <property> children of an element, undefined when there are none
+   */
+  private parseBinaryPropertyValues(element: XmlElement): Record<string, Buffer> | undefined {
+    const encoded = element.childrenNamed('property').filter((property) => property.attr('encoding') === 'base64');
+
+    return encoded.length > 0 ? Object.fromEntries(encoded.map((property) => [property.attr('name') || '', Buffer.from(property.text, 'base64')])) : undefined;
+  }
+
+  /**
+   * Parse diff --summarize output (XML)
+   */
+  private parseDiffSummaryOutput(xmlOutput: string): SvnDiffSummary[] {
+    const paths = parseXml(xmlOutput).child('diff')?.child('paths');
+
+    if (!paths) {
+      return [];
+    }
+
+    return paths.childrenNamed('path').map((path) => ({
+      path: path.text,
+      item: (path.attr('item') || 'none') as SvnDiffSummary['item'],
+      props: (path.attr('props') || 'none') as SvnDiffSummary['props'],
+      kind: (path.attr('kind') || 'file') as SvnDiffSummary['kind'],
+    }));
   }
 
   /**
    * Parse List output (XML)
    */
   private parseListOutput(xmlOutput: string): string[] {
-    const paths: string[] = [];
-    const listMatch = xmlOutput.match(/<lists[^>]*>([\s\S]*)<\/lists>/);
+    return this.parseListEntries(xmlOutput).map((entry) => entry.name);
+  }
 
-    if (!listMatch) {
-      return paths;
+  /**
+   * Parse List output (XML) into detailed entries
+   */
+  private parseListEntries(xmlOutput: string): SvnListEntry[] {
+    const lists = parseXml(xmlOutput).child('lists');
+
+    return lists ? this.collectListEntries(lists, '') : [];
+  }
+
+  /**
+   * Collect list entries below an element
+   * With --include-externals, entries of externals are nested in <external parent_url="..." target="..."> elements
+   */
+  private collectListEntries(element: XmlElement, target: string, external?: XmlElement): SvnListEntry[] {
+    return element.children.flatMap((child) => {
+      switch (child.name) {
+        case 'list':
+          return this.collectListEntries(child, child.attr('path') || target, external);
+        case 'external':
+          return this.collectListEntries(child, target, child);
+        case 'entry':
+          return [this.parseListEntry(child, target, external)];
+        default:
+          return [];
+      }
+    });
+  }
+
+  /**
+   * Parse a list <entry> element
+   */
+  private parseListEntry(entry: XmlElement, target: string, external?: XmlElement): SvnListEntry {
+    const size = entry.childText('size');
+    const commit = entry.child('commit');
+    const lock = entry.child('lock');
+
+    return this.removeUndefinedFields({
+      name: entry.childText('name') || '',
+      target,
+      kind: entry.attr('kind') || '',
+      size: size === undefined ? undefined : parseInt(size, 10),
+      lastChangedRevision: commit?.attr('revision'),
+      lastChangedAuthor: commit?.childText('author'),
+      lastChangedDate: commit?.childText('date'),
+      lock: lock ? this.parseLockInfo(lock) : undefined,
+      externalParentUrl: external?.attr('parent_url'),
+      externalTarget: external?.attr('target'),
+    });
+  }
+
+  /**
+   * Parse a <lock> element
+   */
+  private parseLockInfo(lock: XmlElement): SvnLockInfo {
+    return this.removeUndefinedFields({
+      token: lock.childText('token') || '',
+      owner: lock.childText('owner') || '',
+      comment: lock.childText('comment'),
+      created: lock.childText('created'),
+      expires: lock.childText('expires'),
+    });
+  }
+
+  // ========== Helper Methods ==========
+
+  /**
+   * Build log command arguments
+   * svn log takes one URL followed by paths relative to it, or several working copy paths,
+   * so repositoryUrl is only applied to the first target
+   */
+  private buildLogCommand(paths: SvnTarget | SvnTarget[] | undefined, options: SvnLogOptions): [string[], SvnOptions] {
+    const [first, ...rest] = Array.isArray(paths) ? paths : this.buildPathArgs(paths);
+    const target = first ? this.resolveTarget(first, this.mergeOptions(options)) : undefined;
+
+    const optionsWithoutRepoUrl = { ...options };
+    delete optionsWithoutRepoUrl.repositoryUrl;
+
+    if (!target || !this.isUrl(target.path)) {
+      return this.buildSvnArgs('log', ['--xml', ...this.buildLogArgs(options), ...(target ? [target, ...rest] : [])], optionsWithoutRepoUrl);
+    }
+
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('log', ['--xml', ...this.buildLogArgs(options), target], optionsWithoutRepoUrl);
+
+    // Paths after a URL are relative to it, so they keep POSIX separators instead of being normalized as local paths
+    svnArgs.push(...rest.map((relativePath) => this.formatTarget(this.toUrlRelativeTarget(relativePath))));
+
+    return [svnArgs, mergedOptions];
+  }
+
+  /**
+   * Convert a path following a URL target to POSIX form, keeping its peg revision
+   */
+  private toUrlRelativeTarget(target: SvnTarget): SvnPegTarget {
+    const pegTarget = typeof target === 'string' ? { path: target } : target;
+
+    return { ...pegTarget, path: path.posix.normalize(pegTarget.path.split(path.sep).join('/')) };
+  }
+
+  /**
+   * Build list command arguments
+   */
+  private buildListCommand(targets: SvnTarget[], options: SvnListOptions): [string[], SvnOptions] {
+    const args = ['--xml', ...this.buildListArgs(options), ...targets];
+
+    return this.buildSvnArgs('list', args, options);
+  }
+
+  /**
+   * Build cat command arguments
+   */
+  private buildCatCommand(path: SvnTarget, options: SvnCatOptions): [string[], SvnOptions] {
+    const args = [...this.buildRevisionArgs(options.revision), ...(options.ignoreKeywords ? ['--ignore-keywords'] : []), this.buildCatTarget(path, options)];
+
+    return this.buildSvnArgs('cat', args, options);
+  }
+
+  /**
+   * Apply the pegRevision option of cat to its target
+   */
+  private buildCatTarget(path: SvnTarget, options: SvnCatOptions): SvnTarget {
+    if (options.pegRevision === undefined) {
+      return path;
     }
 
-    const listContent = listMatch[1];
-    const entryMatches = listContent.matchAll(/<entry[^>]*>([\s\S]*?)<\/entry>/g);
+    return { path: typeof path === 'string' ? path : path.path, pegRevision: options.pegRevision };
+  }
+
+  /**
+   * Read the properties of the file read by cat (same revision and peg revision)
+   * Rejects with the typed SvnError on failure
+   */
+  private async getCatProperties(path: SvnTarget, options: SvnCatOptions): Promise<Record<string, string>> {
+    const args = ['--xml', '--verbose', ...this.buildRevisionArgs(options.revision), this.buildCatTarget(path, options)];
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('proplist', args, options);
 
-    for (const match of entryMatches) {
-      const entryContent = match[1];
-      const nameMatch = entryContent.match(/<name>(.*?)<\/name>/);
+    const result = await this.executeCommand(svnArgs, mergedOptions);
+    if (!result.success) {
+      this.throwIfAborted(result, mergedOptions);
+      throw result.error;
+    }
 
-      if (nameMatch) {
-        // Decode HTML entities (e.g., &amp; -> &)
-        const decodedName = this.decodeHtmlEntities(nameMatch[1]);
-        paths.push(decodedName);
+    return this.parsePropertiesOutput(result.stdout)[0]?.properties ?? {};
+  }
+
+  /**
+   * Read the diff output untrimmed, so trailing whitespace and blank context lines of the last hunk are kept
+   * Like diff, a failed command yields empty output unless it was aborted or errorMode is 'throw'
+   */
+  private async readDiffOutput(path1: SvnTarget | undefined, path2: SvnTarget | undefined, options: SvnDiffOptions): Promise<string> {
+    const chunks: Buffer[] = [];
+
+    try {
+      for await (const chunk of this.diffStream(path1, path2, options)) {
+        chunks.push(chunk as Buffer);
       }
+    } catch (error: unknown) {
+      if (error instanceof SvnCancelledError || error instanceof SvnTimeoutError || this.mergeOptions(options).errorMode === 'throw') {
+        throw error;
+      }
+      this.logger.warn(`Diff command failed: ${error instanceof Error ? error.message : String(error)}`);
+
+      return '';
     }
 
-    return paths;
+    return Buffer.concat(chunks).toString('utf8');
   }
 
-  // ========== Helper Methods ==========
+  /**
+   * Check whether svn treats a mime type as binary (any type other than text/*)
+   */
+  private isBinaryMimeType(mimeType?: string): boolean {
+    if (!mimeType) {
+      return false;
+    }
+
+    const type = mimeType.split(';')[0].trim().toLowerCase();
+
+    return !type.startsWith('text/') && !TEXT_MIME_TYPES.includes(type);
+  }
 
   /**
-   * Build path arguments array
+   * Build diff command arguments
    */
-  private buildPathArgs(path?: string): string[] {
-    return path ? [path] : [];
+  private buildDiffCommand(path1: SvnTarget | undefined, path2: SvnTarget | undefined, options: SvnDiffOptions, outputArgs: string[] = []): [string[], SvnOptions] {
+    const args = [
+      ...outputArgs,
+      ...this.buildDiffRevisionArgs(options),
+      ...this.buildDiffCmdArgs(options.diffCmd),
+      ...this.buildDiffExtensionArgs(options),
+      ...this.buildDepthArgs(options.depth),
+      ...this.buildChangelistArgs(options.changelist),
+      ...this.buildDiffFlags(options),
+      ...this.buildPathArgs(path1),
+      ...this.buildPathArgs(path2),
+    ];
+
+    return this.buildSvnArgs('diff', args, options);
+  }
+
+  /**
+   * Build export command arguments
+   * repositoryUrl is only applied to the source path, never to the local destination
+   */
+  private buildExportCommand(sourcePath: SvnTarget, localPath: string, options: SvnExportOptions): [string[], SvnOptions] {
+    const args = [...this.buildRevisionArgs(options.revision), ...this.buildDepthArgs(options.depth), ...this.buildExportFlags(options), ...this.buildExportPathArgs(sourcePath, localPath, options)];
+
+    const optionsWithoutRepoUrl = { ...options };
+    delete optionsWithoutRepoUrl.repositoryUrl;
+
+    return this.buildSvnArgs('export', args, optionsWithoutRepoUrl);
+  }
+
+  /**
+   * Build blame arguments
+   * Without an end revision, svn annotates HEAD for URLs and BASE for working copy paths
+   */
+  private buildBlameArgs(path: SvnTarget, options: SvnBlameOptions): string[] {
+    const args: string[] = [];
+
+    if (options.startRevision !== undefined) {
+      const endRevision = options.revision ?? (this.isUrl(this.resolveTarget(path, this.mergeOptions(options)).path) ? 'HEAD' : 'BASE');
+      args.push(...this.buildRevisionArgs({ start: options.startRevision, end: endRevision }));
+    } else {
+      args.push(...this.buildRevisionArgs(options.revision));
+    }
+
+    if (options.useMergeHistory) {
+      args.push('--use-merge-history');
+    }
+
+    if (options.ignoreWhitespace) {
+      args.push('--extensions', '-w');
+    }
+
+    return args;
   }
 
   /**
-   * Build revision arguments
+   * Build path arguments array
    */
-  private buildRevisionArgs(revision?: string | number): string[] {
-    return revision ? ['--revision', String(revision)] : [];
+  private buildPathArgs(path?: SvnTarget): SvnTarget[] {
+    return path ? [path] : [];
   }
 
   /**
@@ -406,26 +1081,49 @@ export class SvnReadService extends SvnBaseService {
       args.push('--limit', String(options.limit));
     }
 
-    if (options.revision) {
-      args.push('--revision', String(options.revision));
-    }
+    args.push(...this.buildRevisionArgs(options.revision));
 
     if (options.stopOnCopy) {
       args.push('--stop-on-copy');
     }
 
+    if (options.verbose) {
+      args.push('--verbose');
+    }
+
+    args.push(...this.buildSearchArgs(options));
+
+    if (options.useMergeHistory) {
+      args.push('--use-merge-history');
+    }
+
+    if (options.withAllRevprops) {
+      args.push('--with-all-revprops');
+    } else if (options.withRevprops?.length) {
+      // Explicit revprops replace the default set, so keep author, date and message in the entry
+      new Set([...LOG_STANDARD_REVPROPS, ...options.withRevprops]).forEach((name) => args.push('--with-revprop', name));
+    }
+
     return args;
   }
 
+  /**
+   * Build log search arguments
+   * --search patterns match any, each --search-and narrows the last search pattern
+   */
+  private buildSearchArgs(options: SvnLogOptions): string[] {
+    const patterns = options.search === undefined ? [] : [options.search].flat();
+
+    return [...patterns.flatMap((pattern) => ['--search', pattern]), ...(options.searchAnd || []).flatMap((pattern) => ['--search-and', pattern])];
+  }
+
   /**
    * Build list-specific arguments
    */
   private buildListArgs(options: SvnListOptions): string[] {
     const args: string[] = [];
 
-    if (options.revision) {
-      args.push('--revision', String(options.revision));
-    }
+    args.push(...this.buildRevisionArgs(options.revision));
 
     if (options.recursive) {
       args.push('--recursive');
@@ -435,6 +1133,10 @@ export class SvnReadService extends SvnBaseService {
       args.push('--depth', options.depth);
     }
 
+    if (options.includeExternals) {
+      args.push('--include-externals');
+    }
+
     return args;
   }
 
@@ -442,12 +1144,16 @@ export class SvnReadService extends SvnBaseService {
    * Build diff revision arguments
    */
   private buildDiffRevisionArgs(options: SvnDiffOptions): string[] {
-    if (options.revision) {
-      return ['--revision', String(options.revision)];
+    if (options.change !== undefined) {
+      return ['--change', String(options.change)];
     }
 
-    if (options.oldRevision && options.newRevision) {
-      return ['--revision', `${options.oldRevision}:${options.newRevision}`];
+    if (options.revision !== undefined) {
+      return this.buildRevisionArgs(options.revision);
+    }
+
+    if (options.oldRevision !== undefined && options.newRevision !== undefined) {
+      return this.buildRevisionArgs({ start: options.oldRevision, end: options.newRevision });
     }
 
     return [];
@@ -461,20 +1167,62 @@ export class SvnReadService extends SvnBaseService {
   }
 
   /**
-   * Build diff path arguments
+   * Build diff extension arguments for the internal diff (whitespace, line endings, context)
+   * All options are combined into a single --extensions value
+   */
+  private buildDiffExtensionArgs(options: SvnDiffOptions): string[] {
+    const extensions: string[] = [];
+
+    if (options.ignoreWhitespace) {
+      extensions.push('-w');
+    }
+
+    if (options.ignoreEolStyle) {
+      extensions.push('--ignore-eol-style');
+    }
+
+    if (options.contextLines !== undefined) {
+      extensions.push('-U', String(options.contextLines));
+    }
+
+    return extensions.length > 0 ? ['--extensions', extensions.join(' ')] : [];
+  }
+
+  /**
+   * Build changelist arguments
    */
-  private buildDiffPathArgs(path1?: string, path2?: string, options?: SvnOptions): string[] {
+  private buildChangelistArgs(changelist?: string): string[] {
+    return changelist ? ['--changelist', changelist] : [];
+  }
+
+  /**
+   * Build diff output flags
+   */
+  private buildDiffFlags(options: SvnDiffOptions): string[] {
     const args: string[] = [];
-    const mergedOptions = options ? this.mergeOptions(options) : {};
-    const resolvedPath1 = path1 ? this.resolvePath(path1, mergedOptions) : undefined;
-    const resolvedPath2 = path2 ? this.resolvePath(path2, mergedOptions) : undefined;
 
-    if (resolvedPath1) {
-      args.push(resolvedPath1);
+    if (options.git) {
+      args.push('--git');
+    }
+
+    if (options.noDiffAdded) {
+      args.push('--no-diff-added');
+    }
+
+    if (options.noDiffDeleted) {
+      args.push('--no-diff-deleted');
+    }
+
+    if (options.ignoreProperties) {
+      args.push('--ignore-properties');
     }
 
-    if (resolvedPath2) {
-      args.push(resolvedPath2);
+    if (options.propertiesOnly) {
+      args.push('--properties-only');
+    }
+
+    if (options.showCopiesAsAdds) {
+      args.push('--show-copies-as-adds');
     }
 
     return args;
@@ -511,31 +1259,102 @@ export class SvnReadService extends SvnBaseService {
   /**
    * Build export path arguments
    */
-  private buildExportPathArgs(sourcePath: string, destinationPath: string, options: SvnExportOptions): string[] {
-    const args: string[] = [];
-    const mergedOptions = this.mergeOptions(options);
-    const resolvedSourcePath = this.resolvePath(sourcePath, mergedOptions);
+  private buildExportPathArgs(sourcePath: SvnTarget, destinationPath: string, options: SvnExportOptions): SvnTarget[] {
+    return [this.resolveTarget(sourcePath, this.mergeOptions(options)), destinationPath];
+  }
 
-    if (resolvedSourcePath) {
-      args.push(resolvedSourcePath);
+  /**
+   * Handle list command errors
+   */
+  private handleListError(error: SvnError | undefined, path: SvnTarget | undefined, options: SvnOptions): void {
+    const resolvedPath = path ? this.resolveTarget(path, this.mergeOptions(options)).path : undefined;
+
+    if (error instanceof SvnNotWorkingCopyError) {
+      this.logger.warn(`List command failed: Path '${resolvedPath || 'current directory'}' is not a working copy. Use a repository URL (e.g., file://, http://) or a working copy path.`);
+    } else {
+      this.logger.warn(`List command failed: ${error?.message}`);
     }
+  }
 
-    args.push(destinationPath);
+  /**
+   * Handle a failed propget
+   * A property that is not set is not an error: svn 1.9+ fails with warning W200017, the result is null
+   */
+  private handlePropGetError(result: SvnCommandResult, options: SvnOptions, commandName: string): null {
+    if (result.stderr.includes(PROPERTY_NOT_FOUND_WARNING)) {
+      return null;
+    }
 
-    return args;
+    this.throwIfAborted(result, options);
+    if (options.errorMode === 'throw') {
+      throw result.error;
+    }
+    this.logger.warn(`${commandName} command failed: ${result.error?.message || result.stderr}`);
+
+    return null;
   }
 
   /**
-   * Handle list command errors
+   * Build depth arguments, falling back to --recursive
    */
-  private handleListError(stderr: string, path: string | undefined, options: SvnOptions): void {
-    const mergedOptions = this.mergeOptions(options);
-    const resolvedPath = this.resolvePath(path, mergedOptions);
+  private buildRecursiveDepthArgs(options: { depth?: string; recursive?: boolean }): string[] {
+    if (options.depth) {
+      return ['--depth', options.depth];
+    }
 
-    if (stderr.includes('is not a working copy') || stderr.includes('E155007')) {
-      this.logger.warn(`List command failed: Path '${resolvedPath || 'current directory'}' is not a working copy. Use a repository URL (e.g., file://, http://) or a working copy path.`);
-    } else {
-      this.logger.warn(`List command failed: ${stderr}`);
+    return options.recursive ? ['--recursive'] : [];
+  }
+
+  /**
+   * Fill the repository size of URL file entries
+   * svn info does not report sizes, so they are read with a single `svn list --depth empty` over all such entries,
+   * each pegged at the revision info reported for it (which already reflects pegRevision and options.revision)
+   */
+  private async fillRepositorySizes(entries: SvnInfoResult[], options: SvnInfoOptions): Promise<void> {
+    const fileEntries = entries.filter((entry) => entry.nodeKind === 'file' && entry.workingCopyRoot === undefined && entry.url);
+
+    if (fileEntries.length === 0) {
+      return;
+    }
+
+    const optionsWithoutRepoUrl: SvnOptions = { ...options, errorMode: 'result' };
+    delete optionsWithoutRepoUrl.repositoryUrl;
+
+    const targets: SvnTarget[] = fileEntries.map((entry) => (entry.revision ? { path: entry.url, pegRevision: entry.revision as `${number}` } : entry.url));
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('list', ['--xml', '--depth', 'empty', ...targets], optionsWithoutRepoUrl);
+    const result = await this.executeCommand(svnArgs, mergedOptions);
+
+    if (!result.success) {
+      return;
+    }
+
+    // Lists come in target order; URLs are compared decoded, as svn and resolvePath may encode them differently
+    const sizes = (parseXml(result.stdout).child('lists')?.childrenNamed('list') || []).map((list) => ({
+      url: this.normalizeUrl(list.attr('path') || ''),
+      size: list.child('entry')?.childText('size'),
+    }));
+
+    fileEntries.forEach((entry) => {
+      const index = sizes.findIndex((list) => list.url === this.normalizeUrl(entry.url));
+      if (index === -1) {
+        return;
+      }
+
+      const [{ size }] = sizes.splice(index, 1);
+      if (size !== undefined) {
+        entry.size = parseInt(size, 10);
+      }
+    });
+  }
+
+  /**
+   * Normalize a URL for comparison: decoded path, no trailing slash
+   */
+  private normalizeUrl(url: string): string {
+    try {
+      return decodeURIComponent(url).replace(/\/+$/, '');
+    } catch {
+      return url.replace(/\/+$/, '');
     }
   }
 
@@ -0,0 +1,100 @@
+import type { Readable } from 'stream';
+import type { SvnCommitResult, SvnRemoteOperation, SvnRevision } from '../interfaces/svn-options.interface';
+import { SvnError } from '../errors/svn.error';
+
+/**
+ * Commits the collected operations with the given message
+ */
+export type SvnRemoteTransactionExecutor = (operations: SvnRemoteOperation[], message: string) => Promise<SvnCommitResult>;
+
+/**
+ * Builder for a working-copy-free commit of several operations (svnmucc)
+ * Operations are collected in order and committed atomically as one revision; paths are relative to repositoryUrl or URLs
+ *
+ * @example
+ * const result = await svnService
+ *   .remoteTransaction({ repositoryUrl: 'https://svn.example.com/repo', baseRevision: 41 })
+ *   .mkdir('releases/1.0')
+ *   .put('releases/1.0/manifest.json', Buffer.from(manifest))
+ *   .copy('trunk', 'tags/1.0')
+ *   .commit('Release 1.0');
+ */
+export class RemoteTransaction {
+  private readonly pending: SvnRemoteOperation[] = [];
+
+  constructor(private readonly executor: SvnRemoteTransactionExecutor) {}
+
+  /**
+   * Operations collected so far
+   */
+  get operations(): readonly SvnRemoteOperation[] {
+    return this.pending;
+  }
+
+  /**
+   * Create or replace a file with the given content
+   */
+  put(path: string, content: string | Buffer | Readable): this {
+    return this.add({ action: 'put', path, content });
+  }
+
+  /**
+   * Create a directory
+   */
+  mkdir(path: string): this {
+    return this.add({ action: 'mkdir', path });
+  }
+
+  /**
+   * Copy a file or directory (source at HEAD unless a revision is given)
+   */
+  copy(sourcePath: string, destinationPath: string, revision?: SvnRevision): this {
+    return this.add({ action: 'cp', source: sourcePath, path: destinationPath, revision });
+  }
+
+  /**
+   * Move a file or directory
+   */
+  move(sourcePath: string, destinationPath: string): this {
+    return this.add({ action: 'mv', source: sourcePath, path: destinationPath });
+  }
+
+  /**
+   * Delete a file or directory
+   */
+  remove(path: string): this {
+    return this.add({ action: 'rm', path });
+  }
+
+  /**
+   * Set a versioned property
+   */
+  propSet(name: string, value: string | Buffer, path: string): this {
+    return this.add({ action: 'propset', name, content: value, path });
+  }
+
+  /**
+   * Delete a versioned property
+   */
+  propDel(name: string, path: string): this {
+    return this.add({ action: 'propdel', name, path });
+  }
+
+  /**
+   * Commit all operations as a single revision
+   * Rejects with SvnError when no operation was added
+   */
+  async commit(message: string): Promise<SvnCommitResult> {
+    if (this.pending.length === 0) {
+      throw new SvnError('Remote transaction has no operations to commit');
+    }
+
+    return this.executor([...this.pending], message);
+  }
+
+  private add(operation: SvnRemoteOperation): this {
+    this.pending.push(operation);
+
+    return this;
+  }
+}
@@ -0,0 +1,514 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { existsSync, readFileSync } from 'fs';
+import { Readable } from 'stream';
+import { SvnError } from '../errors/svn.error';
+import { SvnWriteService } from './svn-write.service';
+
+describe('SvnWriteService Commands', () => {
+  let writeService: SvnWriteService;
+
+  beforeAll(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [SvnWriteService],
+    }).compile();
+
+    writeService = module.get<SvnWriteService>(SvnWriteService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('properties', () => {
+    it('should set values through a temporary file that is removed afterwards', async () => {
+      let fileContent: Buffer | undefined;
+      let filePath = '';
+      const execute = jest.spyOn(writeService as any, 'executeCommand').mockImplementationOnce(async (args: string[]) => {
+        filePath = args[args.indexOf('--file') + 1];
+        fileContent = readFileSync(filePath);
+
+        return { success: true, stdout: "property 'build' set on 'file:///srv/repo/trunk'", stderr: '' };
+      });
+
+      const value = Buffer.from([0, 1, 2, 255]);
+      const result = await writeService.propSet('build', value, 'trunk', { repositoryUrl: 'file:///srv/repo', message: 'Set build' });
+
+      const args = execute.mock.calls[0][0] as string[];
+      expect(args.slice(0, 2)).toEqual(['propset', 'build']);
+      expect(args).toEqual(expect.arrayContaining(['--message', 'Set build', 'file:///srv/repo/trunk']));
+      expect(fileContent).toEqual(value);
+      expect(existsSync(filePath)).toBe(false);
+      expect(result.success).toBe(true);
+    });
+
+    it('should keep values that look like options verbatim', async () => {
+      let fileContent = '';
+      jest.spyOn(writeService as any, 'executeCommand').mockImplementationOnce(async (args: string[]) => {
+        fileContent = readFileSync(args[args.indexOf('--file') + 1], 'utf8');
+
+        return { success: true, stdout: '', stderr: '' };
+      });
+
+      await writeService.propSet('svn:ignore', '--not-an-option\n*.log\n', ['a', 'b'], { recursive: true });
+
+      expect(fileContent).toBe('--not-an-option\n*.log\n');
+    });
+
+    it('should delete properties with depth', async () => {
+      const execute = jest.spyOn(writeService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: '', stderr: '' });
+
+      await writeService.propDel('svn:externals', ['trunk'], { depth: 'immediates' });
+
+      expect(execute.mock.calls[0][0]).toEqual(expect.arrayContaining(['propdel', 'svn:externals', '--depth', 'immediates', 'trunk']));
+    });
+  });
+
+  describe('revprops', () => {
+    it('should set a revision property through a temporary file', async () => {
+      let fileContent = '';
+      const execute = jest.spyOn(writeService as any, 'executeCommand').mockImplementationOnce(async (args: string[]) => {
+        fileContent = readFileSync(args[args.indexOf('--file') + 1], 'utf8');
+
+        return { success: true, stdout: "property 'ticket' set on repository revision 12", stderr: '' };
+      });
+
+      await writeService.revpropSet('ticket', 'PRJ-42', 12, 'file:///srv/repo');
+
+      expect(execute.mock.calls[0][0]).toEqual(expect.arrayContaining(['propset', 'ticket', '--revprop', '--revision', '12', 'file:///srv/repo']));
+      expect(fileContent).toBe('PRJ-42');
+    });
+
+    it('should delete a revision property', async () => {
+      const execute = jest.spyOn(writeService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: '', stderr: '' });
+
+      await writeService.revpropDel('ticket', 'HEAD', 'file:///srv/repo');
+
+      expect(execute.mock.calls[0][0]).toEqual(expect.arrayContaining(['propdel', 'ticket', '--revprop', '--revision', 'HEAD']));
+    });
+
+    it('should attach revision properties to a commit', async () => {
+      const execute = jest.spyOn(writeService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: '', stderr: '' });
+
+      await writeService.commit('Release', { revprops: { ticket: 'PRJ-42', build: '1.2 = final' } });
+
+      const args = execute.mock.calls[0][0] as string[];
+      expect(args.filter((arg, index) => args[index - 1] === '--with-revprop')).toEqual(['ticket=PRJ-42', 'build=1.2 = final']);
+    });
+  });
+
+  describe('locks', () => {
+    it('should lock with a comment and steal when forced', async () => {
+      const execute = jest.spyOn(writeService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: "'logo.psd' locked by user 'jane'.", stderr: '' });
+
+      await writeService.lock(['logo.psd'], { message: 'retouching', force: true });
+
+      expect(execute.mock.calls[0][0]).toEqual(expect.arrayContaining(['lock', '--message', 'retouching', '--force', 'logo.psd']));
+    });
+
+    it('should unlock', async () => {
+      const execute = jest.spyOn(writeService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: '', stderr: '' });
+
+      await writeService.unlock(['logo.psd']);
+
+      expect(execute.mock.calls[0][0]).toEqual(expect.arrayContaining(['unlock', 'logo.psd']));
+      expect(execute.mock.calls[0][0]).not.toContain('--force');
+    });
+  });
+
+  describe('working copy recovery', () => {
+    it('should report reverted and skipped paths', async () => {
+      const execute = jest.spyOn(writeService as any, 'executeCommand').mockResolvedValueOnce({
+        success: true,
+        stdout: "Reverted 'src/a.ts'\nReverted 'src/it's.ts'\nSkipped 'missing.ts'\n",
+        stderr: '',
+      });
+
+      const result = await writeService.revert(['src', 'missing.ts'], { recursive: true, removeAdded: true });
+
+      expect(execute.mock.calls[0][0]).toEqual(expect.arrayContaining(['revert', '--recursive', '--remove-added', 'src', 'missing.ts']));
+      expect(result.paths).toEqual([
+        { path: 'src/a.ts', action: 'reverted' },
+        { path: "src/it's.ts", action: 'reverted' },
+        { path: 'missing.ts', action: 'skipped' },
+      ]);
+    });
+
+    it('should report removed items and externals of cleanup', async () => {
+      const execute = jest.spyOn(writeService as any, 'executeCommand').mockResolvedValueOnce({
+        success: true,
+        stdout: "D         build/out.js\nD         tmp\n\nPerforming cleanup on external item at 'vendor/lib'.\n",
+        stderr: '',
+      });
+
+      const result = await writeService.cleanup('.', { removeUnversioned: true, removeIgnored: true, vacuumPristines: true, includeExternals: true });
+
+      expect(execute.mock.calls[0][0]).toEqual(expect.arrayContaining(['cleanup', '--remove-unversioned', '--remove-ignored', '--vacuum-pristines', '--include-externals']));
+      expect(result.paths).toEqual([
+        { path: 'build/out.js', action: 'removed' },
+        { path: 'tmp', action: 'removed' },
+        { path: 'vendor/lib', action: 'external' },
+      ]);
+    });
+
+    it('should report resolved conflicts of old and new clients', async () => {
+      jest.spyOn(writeService as any, 'executeCommand').mockResolvedValueOnce({
+        success: true,
+        stdout: [
+          "Resolved conflicted state of 'old.txt'",
+          "Merge conflicts in 'a.txt' marked as resolved.",
+          "Conflict in property 'svn:ignore' at 'dir' marked as resolved.",
+          "Tree conflict at 'moved' marked as resolved.",
+          'Summary of conflicts:',
+          '  Text conflicts: 0 remaining (and 1 already resolved)',
+        ].join('\n'),
+        stderr: '',
+      });
+
+      const result = await writeService.resolve(['.'], { accept: 'working', recursive: true });
+
+      expect(result.paths).toEqual([
+        { path: 'old.txt', action: 'resolved' },
+        { path: 'a.txt', action: 'resolved', conflict: 'text' },
+        { path: 'dir', action: 'resolved', conflict: 'property', property: 'svn:ignore' },
+        { path: 'moved', action: 'resolved', conflict: 'tree' },
+      ]);
+    });
+  });
+
+  describe('update and checkout results', () => {
+    it('should report actions, conflicts, externals and revisions per target', async () => {
+      const stdout = [
+        "Updating 'app':",
+        'U    app/a.txt',
+        ' U   app/dir',
+        'C    app/b.txt',
+        '   C app/moved.txt',
+        'A B  app/locked.bin',
+        'G    app/merged.txt',
+        '',
+        "Fetching external item into 'app/vendor':",
+        'A    app/vendor/lib.c',
+        'Updated external to revision 12.',
+        '',
+        'D    app/old.txt',
+        'Updated to revision 42.',
+        "Updating 'docs':",
+        'At revision 42.',
+        'Summary of conflicts:',
+        '  Text conflicts: 1',
+        '  Tree conflicts: 1',
+      ].join('\n');
+      const execute = jest.spyOn(writeService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout, stderr: '' });
+
+      const result = await writeService.update(['app', 'docs'], { revision: 42, accept: 'postpone' });
+
+      expect(execute.mock.calls[0][0]).toEqual(expect.arrayContaining(['update', '--revision', '42', '--accept', 'postpone', 'app', 'docs']));
+      expect(result.stdout).toBe(stdout);
+      expect(result.paths).toEqual([
+        { path: 'app/a.txt', textAction: 'U' },
+        { path: 'app/dir', propAction: 'U' },
+        { path: 'app/b.txt', textAction: 'C' },
+        { path: 'app/moved.txt', treeConflict: true },
+        { path: 'app/locked.bin', textAction: 'A', lockBroken: true },
+        { path: 'app/merged.txt', textAction: 'G' },
+        { path: 'app/vendor/lib.c', textAction: 'A', external: 'app/vendor' },
+        { path: 'app/old.txt', textAction: 'D' },
+      ]);
+      expect(result.conflicts).toEqual([
+        { path: 'app/b.txt', kind: 'text' },
+        { path: 'app/moved.txt', kind: 'tree' },
+      ]);
+      expect(result.externals).toEqual([{ path: 'app/vendor', revision: 12 }]);
+      expect(result.targets).toEqual([
+        { path: 'app', revision: 42 },
+        { path: 'docs', revision: 42 },
+      ]);
+      expect(result.revision).toBe(42);
+    });
+
+    it('should use the local path as checkout target', async () => {
+      jest.spyOn(writeService as any, 'executeCommand').mockResolvedValueOnce({
+        success: true,
+        stdout: "A    wc/a.txt\nA    wc/src\n\nFetching external item into 'wc/lib':\nA    wc/lib/x.c\nChecked out external at revision 3.\n\nChecked out revision 7.\n",
+        stderr: '',
+      });
+
+      const result = await writeService.checkout('file:///srv/repo/trunk', 'wc');
+
+      expect(result.paths.map((updatedPath) => updatedPath.path)).toEqual(['wc/a.txt', 'wc/src', 'wc/lib/x.c']);
+      expect(result.externals).toEqual([{ path: 'wc/lib', revision: 3 }]);
+      expect(result.targets).toEqual([{ path: 'wc', revision: 7 }]);
+      expect(result.revision).toBe(7);
+    });
+
+    it('should keep the failure details', async () => {
+      jest.spyOn(writeService as any, 'executeCommand').mockResolvedValueOnce({ success: false, stdout: '', stderr: 'svn: E155007: not a working copy' });
+
+      const result = await writeService.update('missing');
+
+      expect(result.success).toBe(false);
+      expect(result.paths).toEqual([]);
+      expect(result.revision).toBeUndefined();
+    });
+  });
+
+  describe('commit results', () => {
+    it('should report the committed revision, paths and hook warnings', async () => {
+      const stdout = [
+        'Adding         src/new.ts',
+        'Adding  (bin)  assets/logo.png',
+        'Adding copy of docs/guide.md',
+        'Sending        src/a.ts',
+        'Deleting       src/old.ts',
+        'Replacing      config.json',
+        'Transmitting file data ...done',
+        'Committing transaction...',
+        'Committed revision 15.',
+        '',
+        'Warning: post-commit hook failed (exit code 1) with output:',
+        'notify: mail server unreachable',
+        'retry later',
+        '',
+      ].join('\n');
+      jest.spyOn(writeService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout, stderr: '' });
+
+      const result = await writeService.commit('Change');
+
+      expect(result.revision).toBe(15);
+      expect(result.paths).toEqual([
+        { path: 'src/new.ts', action: 'added' },
+        { path: 'assets/logo.png', action: 'added', binary: true },
+        { path: 'docs/guide.md', action: 'added' },
+        { path: 'src/a.ts', action: 'sent' },
+        { path: 'src/old.ts', action: 'deleted' },
+        { path: 'config.json', action: 'replaced' },
+      ]);
+      expect(result.warnings).toEqual(['post-commit hook failed (exit code 1) with output:\nnotify: mail server unreachable\nretry later']);
+    });
+
+    it('should report the revision of URL operations', async () => {
+      jest
+        .spyOn(writeService as any, 'executeCommand')
+        .mockResolvedValue({ success: true, stdout: 'Committing transaction...\nCommitted revision 42 (the answer to life, the universe, and everything).\n', stderr: '' });
+
+      await expect(writeService.copy('file:///srv/repo/trunk', 'file:///srv/repo/tags/1.0', { message: 'Tag' })).resolves.toMatchObject({ revision: 42, paths: [], warnings: [] });
+      await expect(writeService.mkdir(['file:///srv/repo/branches/x'], { message: 'Branch dir' })).resolves.toMatchObject({ revision: 42 });
+      await expect(writeService.move('file:///srv/repo/a', 'file:///srv/repo/b', { message: 'Rename' })).resolves.toMatchObject({ revision: 42 });
+    });
+
+    it('should restore a deleted path from a pegged copy source', async () => {
+      const execute = jest.spyOn(writeService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: 'Committed revision 43.\n', stderr: '' });
+
+      await writeService.copy({ path: 'trunk/removed.txt', pegRevision: 41 }, 'trunk/removed.txt', { repositoryUrl: 'file:///srv/repo', message: 'Restore' });
+
+      expect((execute.mock.calls[0][0] as string[]).slice(-2)).toEqual(['file:///srv/repo/trunk/removed.txt@41', 'file:///srv/repo/trunk/removed.txt']);
+    });
+
+    it('should import a local tree into a URL resolved against repositoryUrl', async () => {
+      const stdout = ['Adding         template/package.json', 'Adding  (bin)  template/logo.png', 'Committing transaction...', 'Committed revision 21.', ''].join('\n');
+      const execute = jest.spyOn(writeService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout, stderr: '' });
+
+      const result = await writeService.import('template', 'projects/new-app/trunk', {
+        repositoryUrl: 'file:///srv/repo',
+        message: 'Seed project',
+        depth: 'infinity',
+        noIgnore: true,
+        force: true,
+        revprops: { 'ci:build': '7' },
+      });
+
+      const args = execute.mock.calls[0][0] as string[];
+      expect(args).toEqual(expect.arrayContaining(['import', '--message', 'Seed project', '--depth', 'infinity', '--no-ignore', '--force', '--with-revprop', 'ci:build=7']));
+      expect(args.slice(-2)).toEqual(['template', 'file:///srv/repo/projects/new-app/trunk']);
+      expect(result.revision).toBe(21);
+      expect(result.paths).toEqual([
+        { path: 'template/package.json', action: 'added' },
+        { path: 'template/logo.png', action: 'added', binary: true },
+      ]);
+    });
+
+    it('should leave the revision undefined when nothing was committed', async () => {
+      jest.spyOn(writeService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: '', stderr: '' });
+
+      const result = await writeService.commit('Nothing');
+
+      expect(result.revision).toBeUndefined();
+      expect(result.paths).toEqual([]);
+    });
+  });
+
+  describe('merge', () => {
+    it('should merge changes and ranges from a source resolved against repositoryUrl', async () => {
+      const stdout = [
+        "--- Merging r5 into 'wc':",
+        'U    wc/a.txt',
+        "--- Merging r8 through r9 into 'wc':",
+        'C    wc/b.txt',
+        "--- Recording mergeinfo for merge of r5 through r9 into 'wc':",
+        ' U   wc',
+        'Summary of conflicts:',
+        '  Text conflicts: 1',
+      ].join('\n');
+      const execute = jest.spyOn(writeService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout, stderr: '' });
+
+      const result = await writeService.merge('branches/release', 'wc', {
+        repositoryUrl: 'file:///srv/repo',
+        revisions: [5, '-3', '7:9', { start: 10, end: 'HEAD' }],
+        recordOnly: true,
+        dryRun: true,
+        ignoreAncestry: true,
+        accept: 'postpone',
+      });
+
+      const args = execute.mock.calls[0][0] as string[];
+      expect(args).toEqual(
+        expect.arrayContaining(['merge', '--change', '5', '--change', '-3', '--revision', '7:9', '--revision', '10:HEAD', '--record-only', '--dry-run', '--ignore-ancestry', '--accept', 'postpone']),
+      );
+      expect(args.slice(-2)).toEqual(['file:///srv/repo/branches/release', 'wc']);
+      expect(result.paths).toEqual([
+        { path: 'wc/a.txt', textAction: 'U' },
+        { path: 'wc/b.txt', textAction: 'C' },
+        { path: 'wc', propAction: 'U' },
+      ]);
+      expect(result.conflicts).toEqual([{ path: 'wc/b.txt', kind: 'text' }]);
+    });
+
+    it('should merge keyword and date ranges but reject them as single changes', async () => {
+      const execute = jest.spyOn(writeService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: '', stderr: '' });
+
+      await writeService.merge('branches/release', 'wc', { revisions: [{ start: '{2024-01-01}', end: 'HEAD' }] });
+
+      expect(execute.mock.calls[0][0]).toEqual(expect.arrayContaining(['--revision', '{2024-01-01}:HEAD']));
+      await expect(writeService.merge('branches/release', 'wc', { revisions: ['HEAD' as never], errorMode: 'throw' })).rejects.toBeInstanceOf(SvnError);
+      expect(execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should resolve with a failed result for an invalid single revision in result mode', async () => {
+      const execute = jest.spyOn(writeService as any, 'executeCommand');
+
+      const result = await writeService.merge('branches/release', 'wc', { revisions: [5, 'HEAD' as never], errorMode: 'result' });
+
+      expect(result).toMatchObject({ success: false, paths: [], conflicts: [] });
+      expect(result.error).toBeInstanceOf(SvnError);
+      expect(result.stderr).toContain("Invalid merge revision 'HEAD'");
+      expect(execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('switch and relocate', () => {
+    it('should switch to a branch resolved against repositoryUrl', async () => {
+      const execute = jest.spyOn(writeService as any, 'executeCommand').mockResolvedValueOnce({
+        success: true,
+        stdout: "Updating 'wc':\nD    wc/removed.txt\nU    wc/a.txt\nUpdated to revision 30.\n",
+        stderr: '',
+      });
+
+      const result = await writeService.switch('branches/release', 'wc', { repositoryUrl: 'file:///srv/repo', revision: 30, depth: 'infinity', ignoreAncestry: true, accept: 'postpone' });
+
+      const args = execute.mock.calls[0][0] as string[];
+      expect(args).toEqual(expect.arrayContaining(['switch', '--revision', '30', '--depth', 'infinity', '--ignore-ancestry', '--accept', 'postpone']));
+      expect(args.slice(-2)).toEqual(['file:///srv/repo/branches/release', 'wc']);
+      expect(result.paths).toEqual([
+        { path: 'wc/removed.txt', textAction: 'D' },
+        { path: 'wc/a.txt', textAction: 'U' },
+      ]);
+      expect(result.revision).toBe(30);
+    });
+
+    it('should pass relocate prefixes verbatim', async () => {
+      const execute = jest.spyOn(writeService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: '', stderr: '' });
+
+      const result = await writeService.relocate('http://old.example.com/svn', 'https://svn.example.com/svn', 'wc', { repositoryUrl: 'file:///srv/repo' });
+
+      const args = execute.mock.calls[0][0] as string[];
+      expect(args.slice(0, 3)).toEqual(['relocate', 'http://old.example.com/svn', 'https://svn.example.com/svn']);
+      expect(args[args.length - 1]).toBe('wc');
+      expect(result).toMatchObject({ success: true, paths: [], conflicts: [] });
+    });
+  });
+
+  describe('remote transactions', () => {
+    it('should commit all operations as one svnmucc call with resolved URLs', async () => {
+      const fileContents: string[] = [];
+      let filePaths: string[] = [];
+      const execute = jest.spyOn(writeService as any, 'executeCommand').mockImplementationOnce(async (args: string[]) => {
+        filePaths = [args[args.indexOf('put') + 1], args[args.indexOf('propsetf') + 2]];
+        fileContents.push(...filePaths.map((filePath) => readFileSync(filePath, 'utf8')));
+
+        return { success: true, stdout: 'r15 committed by jane at 2021-11-29T12:00:00.000000Z', stderr: '' };
+      });
+
+      const result = await writeService
+        .remoteTransaction({ repositoryUrl: 'file:///srv/repo', baseRevision: 14, revprops: { 'ci:build': '7' } })
+        .mkdir('releases/1.0')
+        .put('releases/1.0/manifest.json', Readable.from(['{"version":', '"1.0"}']))
+        .copy('trunk', 'tags/1.0', 12)
+        .move('branches/old', 'branches/archived')
+        .remove('tmp')
+        .propSet('svn:mime-type', 'application/json', 'releases/1.0/manifest.json')
+        .propDel('svn:needs-lock', 'releases/1.0/manifest.json')
+        .commit('Release 1.0');
+
+      expect(execute.mock.calls[0][2]).toBe('svnmucc');
+      expect(execute.mock.calls[0][0]).toEqual([
+        '--non-interactive',
+        '--message',
+        'Release 1.0',
+        '--revision',
+        '14',
+        '--with-revprop',
+        'ci:build=7',
+        'mkdir',
+        'file:///srv/repo/releases/1.0',
+        'put',
+        filePaths[0],
+        'file:///srv/repo/releases/1.0/manifest.json',
+        'cp',
+        '12',
+        'file:///srv/repo/trunk',
+        'file:///srv/repo/tags/1.0',
+        'mv',
+        'file:///srv/repo/branches/old',
+        'file:///srv/repo/branches/archived',
+        'rm',
+        'file:///srv/repo/tmp',
+        'propsetf',
+        'svn:mime-type',
+        filePaths[1],
+        'file:///srv/repo/releases/1.0/manifest.json',
+        'propdel',
+        'svn:needs-lock',
+        'file:///srv/repo/releases/1.0/manifest.json',
+      ]);
+      expect(fileContents).toEqual(['{"version":"1.0"}', 'application/json']);
+      expect(filePaths.some((filePath) => existsSync(filePath))).toBe(false);
+      expect(result.revision).toBe(15);
+    });
+
+    it('should copy from HEAD unless a revision is given', async () => {
+      const execute = jest.spyOn(writeService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: 'r3 committed by (no author) at 2021-11-29T12:00:00.000000Z', stderr: '' });
+
+      const transaction = writeService.remoteTransaction().copy('file:///srv/repo/trunk', 'file:///srv/repo/tags/2.0');
+      const result = await transaction.commit('Tag');
+
+      expect(transaction.operations).toHaveLength(1);
+      expect((execute.mock.calls[0][0] as string[]).slice(-4)).toEqual(['cp', 'HEAD', 'file:///srv/repo/trunk', 'file:///srv/repo/tags/2.0']);
+      expect(result.revision).toBe(3);
+    });
+
+    it('should pass a Date copy revision in svn date syntax', async () => {
+      const execute = jest.spyOn(writeService as any, 'executeCommand').mockResolvedValueOnce({ success: true, stdout: 'r4 committed by (no author) at 2021-11-29T12:00:00.000000Z', stderr: '' });
+
+      await writeService.remoteTransaction().copy('file:///srv/repo/trunk', 'file:///srv/repo/tags/2.1', new Date('2021-11-01T00:00:00Z')).commit('Tag');
+
+      expect((execute.mock.calls[0][0] as string[]).slice(-4)).toEqual(['cp', '{2021-11-01T00:00:00.000Z}', 'file:///srv/repo/trunk', 'file:///srv/repo/tags/2.1']);
+    });
+
+    it('should reject an empty transaction without running svnmucc', async () => {
+      const execute = jest.spyOn(writeService as any, 'executeCommand');
+
+      await expect(writeService.remoteTransaction().commit('Nothing')).rejects.toThrow(SvnError);
+      expect(execute).not.toHaveBeenCalled();
+    });
+  });
+});
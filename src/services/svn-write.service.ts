@@ -1,6 +1,9 @@
 import { Injectable } from '@nestjs/common';
 import { SvnBaseService } from './svn-base.service';
+import { RemoteTransaction } from './svn-remote-transaction';
+import { SvnError } from '../errors/svn.error';
 import type {
+  SvnOptions,
   SvnCheckoutOptions,
   SvnUpdateOptions,
   SvnCommitOptions,
@@ -9,9 +12,76 @@ import type {
   SvnCopyOptions,
   SvnMoveOptions,
   SvnMkdirOptions,
+  SvnPropSetOptions,
+  SvnPropDelOptions,
+  SvnLockOptions,
+  SvnUnlockOptions,
+  SvnImportOptions,
+  SvnSwitchOptions,
+  SvnMergeOptions,
+  SvnRemoteTransactionOptions,
+  SvnRemoteOperation,
+  SvnRevertOptions,
+  SvnCleanupOptions,
+  SvnResolveOptions,
+  SvnAffectedPath,
+  SvnAffectedPathsResult,
+  SvnUpdatedPath,
+  SvnUpdateConflict,
+  SvnUpdateResult,
+  SvnCommittedPath,
+  SvnCommitResult,
   SvnCommandResult,
+  SvnRevision,
+  SvnRevisionRange,
+  SvnTarget,
 } from '../interfaces/svn-options.interface';
 
+/**
+ * Notification lines of revert, cleanup and resolve
+ */
+const AFFECTED_PATH_PATTERNS: Array<[RegExp, (match: RegExpMatchArray) => SvnAffectedPath]> = [
+  [/^Reverted '(.+)'$/, (match) => ({ path: match[1], action: 'reverted' })],
+  [/^Skipped (?:missing target: )?'(.+)'/, (match) => ({ path: match[1], action: 'skipped' })],
+  [/^D {4,}(.+)$/, (match) => ({ path: match[1], action: 'removed' })],
+  [/^Resolved conflicted state of '(.+)'$/, (match) => ({ path: match[1], action: 'resolved' })],
+  [/^Merge conflicts in '(.+)' marked as resolved\.$/, (match) => ({ path: match[1], action: 'resolved', conflict: 'text' })],
+  [/^Conflict in property '(.+)' at '(.+)' marked as resolved\.$/, (match) => ({ path: match[2], action: 'resolved', conflict: 'property', property: match[1] })],
+  [/^Tree conflict at '(.+)' marked as resolved\.$/, (match) => ({ path: match[1], action: 'resolved', conflict: 'tree' })],
+  [/^Performing cleanup on external item at '(.+)'\.$/, (match) => ({ path: match[1], action: 'external' })],
+];
+
+/**
+ * Commit output lines (svn and svnmucc)
+ */
+const COMMIT_PATTERNS = {
+  path: /^(Adding|Sending|Deleting|Replacing)(?: copy of)?\s+(\(bin\)\s+)?(.+)$/,
+  revision: /^(?:Committed revision (\d+)|r(\d+) committed by )/,
+  warning: /^Warning: (.*)$/,
+  stderrWarning: /^(?:svn|svnmucc): warning: (.*)$/gm,
+} as const;
+
+/**
+ * Commit output verbs by action
+ */
+const COMMIT_ACTIONS: Record<string, SvnCommittedPath['action']> = {
+  Adding: 'added',
+  Sending: 'sent',
+  Deleting: 'deleted',
+  Replacing: 'replaced',
+};
+
+/**
+ * Notification lines of update, checkout (and switch/merge, which print the same format)
+ */
+const UPDATE_PATTERNS = {
+  path: /^([ ADUCGER])([ UCG])([ B])([ C]) (.+)$/,
+  targetStart: /^Updating '(.+)':$/,
+  targetRevision: /^(?:At revision|Updated to revision|Checked out revision) (\d+)\.$/,
+  externalStart: /^Fetching external item into '(.+)':$/,
+  externalRevision: /^(?:External at revision|Updated external to revision|Checked out external at revision) (\d+)\.$/,
+} as const;
+
 @Injectable()
 export class SvnWriteService extends SvnBaseService {
   constructor() {
@@ -22,37 +92,43 @@ export class SvnWriteService extends SvnBaseService {
    * SVN Checkout
    * Check out a working copy from a repository
    */
-  async checkout(repositoryUrl: string, localPath: string, options: SvnCheckoutOptions = {}): Promise<SvnCommandResult> {
-    const args = [...this.buildRevisionArgs(options.revision), ...this.buildDepthArgs(options.depth), repositoryUrl, localPath];
+  async checkout(repositoryUrl: string, localPath: string, options: SvnCheckoutOptions = {}): Promise<SvnUpdateResult> {
+    const [svnArgs, mergedOptions] = this.buildCheckoutCommand(repositoryUrl, localPath, options);
 
-    const optionsWithoutRepoUrl = { ...options };
-    delete optionsWithoutRepoUrl.repositoryUrl;
+    return this.buildUpdateResult(await this.executeCommand(svnArgs, mergedOptions), localPath);
+  }
 
-    const [command, mergedOptions] = this.buildSvnArgs('checkout', args, optionsWithoutRepoUrl);
+  /**
+   * SVN Checkout (streaming)
+   * Yield output lines (one per checked out item) while the checkout is running
+   */
+  async *checkoutStream(repositoryUrl: string, localPath: string, options: SvnCheckoutOptions = {}): AsyncGenerator<string> {
+    const [svnArgs, mergedOptions] = this.buildCheckoutCommand(repositoryUrl, localPath, options);
 
-    return this.executeCommand(command, mergedOptions);
+    yield* this.readLines(this.executeStream(svnArgs, mergedOptions));
   }
 
   /**
    * SVN Update
-   * Update working copy to a different URL or revision
+   * Update one or more working copy paths to a different revision
    */
-  async update(path?: string, options: SvnUpdateOptions = {}): Promise<SvnCommandResult> {
-    const args = [...this.buildRevisionArgs(options.revision), ...this.buildAcceptArgs(options.accept), ...this.buildPathArgs(path)];
-    const [command, mergedOptions] = this.buildSvnArgs('update', args, options);
+  async update(paths?: string | string[], options: SvnUpdateOptions = {}): Promise<SvnUpdateResult> {
+    const targets = Array.isArray(paths) ? paths : this.buildPathArgs(paths);
+    const args = [...this.buildRevisionArgs(options.revision), ...this.buildAcceptArgs(options.accept), ...targets];
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('update', args, options);
 
-    return this.executeCommand(command, mergedOptions);
+    return this.buildUpdateResult(await this.executeCommand(svnArgs, mergedOptions), targets[0] || '.');
   }
 
   /**
    * SVN Commit
    * Send changes from your working copy to the repository
    */
-  async commit(message: string, options: Omit<SvnCommitOptions, 'message'> = {}): Promise<SvnCommandResult> {
-    const args = ['--message', `"${message}"`, ...this.buildDepthArgs(options.depth), ...this.buildFileArgs(options.files)];
-    const [command, mergedOptions] = this.buildSvnArgs('commit', args, options);
+  async commit(message: string, options: Omit<SvnCommitOptions, 'message'> = {}): Promise<SvnCommitResult> {
+    const args = ['--message', message, ...this.buildDepthArgs(options.depth), ...this.buildRevpropArgs(options.revprops), ...this.buildFileArgs(options.files)];
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('commit', args, options);
 
-    return this.executeCommand(command, mergedOptions);
+    return this.buildCommitResult(await this.executeCommand(svnArgs, mergedOptions));
   }
 
   /**
@@ -61,9 +137,9 @@ export class SvnWriteService extends SvnBaseService {
    */
   async add(paths: string[], options: SvnAddOptions = {}): Promise<SvnCommandResult> {
     const args = [...this.buildForceArgs(options.force), ...this.buildNoIgnoreArgs(options.noIgnore), ...paths];
-    const [command, mergedOptions] = this.buildSvnArgs('add', args, options);
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('add', args, options);
 
-    return this.executeCommand(command, mergedOptions);
+    return this.executeCommand(svnArgs, mergedOptions);
   }
 
   /**
@@ -72,58 +148,315 @@ export class SvnWriteService extends SvnBaseService {
    */
   async remove(paths: string[], options: SvnRemoveOptions = {}): Promise<SvnCommandResult> {
     const args = [...this.buildForceArgs(options.force), ...this.buildKeepLocalArgs(options.keepLocal), ...paths];
-    const [command, mergedOptions] = this.buildSvnArgs('remove', args, options);
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('remove', args, options);
 
-    return this.executeCommand(command, mergedOptions);
+    return this.executeCommand(svnArgs, mergedOptions);
   }
 
   /**
    * SVN Copy
-   * Copy a file or directory in a working copy or in the repository
+   * Copy a file or directory in a working copy or in the repository (a pegged source restores deleted paths)
    */
-  async copy(sourcePath: string, destinationPath: string, options: SvnCopyOptions = {}): Promise<SvnCommandResult> {
+  async copy(sourcePath: SvnTarget, destinationPath: string, options: SvnCopyOptions = {}): Promise<SvnCommitResult> {
     const args = [...this.buildRevisionArgs(options.revision), ...this.buildMessageArgs(options.message), ...this.buildParentsArgs(options.parents), sourcePath, destinationPath];
-    const [command, mergedOptions] = this.buildSvnArgs('copy', args, options);
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('copy', args, options);
 
-    return this.executeCommand(command, mergedOptions);
+    return this.buildCommitResult(await this.executeCommand(svnArgs, mergedOptions));
   }
 
   /**
    * SVN Move (rename)
    * Move and/or rename files or directories
    */
-  async move(sourcePath: string, destinationPath: string, options: SvnMoveOptions = {}): Promise<SvnCommandResult> {
+  async move(sourcePath: string, destinationPath: string, options: SvnMoveOptions = {}): Promise<SvnCommitResult> {
     const args = [...this.buildMessageArgs(options.message), ...this.buildForceArgs(options.force), ...this.buildParentsArgs(options.parents), sourcePath, destinationPath];
-    const [command, mergedOptions] = this.buildSvnArgs('move', args, options);
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('move', args, options);
 
-    return this.executeCommand(command, mergedOptions);
+    return this.buildCommitResult(await this.executeCommand(svnArgs, mergedOptions));
   }
 
   /**
    * SVN Mkdir
    * Create a directory under version control
    */
-  async mkdir(paths: string[], options: SvnMkdirOptions = {}): Promise<SvnCommandResult> {
+  async mkdir(paths: string[], options: SvnMkdirOptions = {}): Promise<SvnCommitResult> {
     const args = [...this.buildMessageArgs(options.message), ...this.buildParentsArgs(options.parents), ...paths];
-    const [command, mergedOptions] = this.buildSvnArgs('mkdir', args, options);
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('mkdir', args, options);
+
+    return this.buildCommitResult(await this.executeCommand(svnArgs, mergedOptions));
+  }
+
+  /**
+   * SVN Import
+   * Commit an unversioned tree into the repository
+   * repositoryUrl only applies to the URL; the local path is not resolved
+   */
+  async import(localPath: string, url: string, options: SvnImportOptions): Promise<SvnCommitResult> {
+    const resolvedUrl = this.resolvePath(url, this.mergeOptions(options));
+    const args = [
+      '--message',
+      options.message,
+      ...this.buildDepthArgs(options.depth),
+      ...this.buildNoIgnoreArgs(options.noIgnore),
+      ...this.buildForceArgs(options.force),
+      ...this.buildRevpropArgs(options.revprops),
+      localPath,
+      resolvedUrl,
+    ];
+
+    const optionsWithoutRepoUrl = { ...options };
+    delete optionsWithoutRepoUrl.repositoryUrl;
+
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('import', args, optionsWithoutRepoUrl);
+
+    return this.buildCommitResult(await this.executeCommand(svnArgs, mergedOptions));
+  }
+
+  /**
+   * SVN Switch
+   * Update a working copy to a different URL (e.g. another branch) within the same repository
+   * repositoryUrl only applies to the URL; the path is a local working copy path
+   */
+  async switch(url: string, path: string = '.', options: SvnSwitchOptions = {}): Promise<SvnUpdateResult> {
+    const resolvedUrl = this.resolvePath(url, this.mergeOptions(options));
+    const args = [
+      ...this.buildRevisionArgs(options.revision),
+      ...this.buildDepthArgs(options.depth),
+      ...this.buildIgnoreAncestryArgs(options.ignoreAncestry),
+      ...this.buildAcceptArgs(options.accept),
+      resolvedUrl,
+      path,
+    ];
+
+    const optionsWithoutRepoUrl = { ...options };
+    delete optionsWithoutRepoUrl.repositoryUrl;
+
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('switch', args, optionsWithoutRepoUrl);
 
-    return this.executeCommand(command, mergedOptions);
+    return this.buildUpdateResult(await this.executeCommand(svnArgs, mergedOptions), path);
+  }
+
+  /**
+   * SVN Relocate
+   * Rewrite the repository URL prefix of a working copy after the server moved (no checkout needed)
+   * The prefixes are passed verbatim, repositoryUrl is not applied
+   */
+  async relocate(fromPrefix: string, toPrefix: string, path: string = '.', options: SvnOptions = {}): Promise<SvnUpdateResult> {
+    const optionsWithoutRepoUrl = { ...options };
+    delete optionsWithoutRepoUrl.repositoryUrl;
+
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('relocate', [path], optionsWithoutRepoUrl, [fromPrefix, toPrefix]);
+
+    return this.buildUpdateResult(await this.executeCommand(svnArgs, mergedOptions), path);
+  }
+
+  /**
+   * SVN Merge
+   * Apply the differences of a source (URL or working copy path) to a working copy target
+   * repositoryUrl only applies to the source; the target is a local working copy path
+   */
+  async merge(sourcePath: string, targetPath: string = '.', options: SvnMergeOptions = {}): Promise<SvnUpdateResult> {
+    const invalidRevision = this.findInvalidMergeRevision(options.revisions);
+    if (invalidRevision) {
+      return this.buildUpdateResult(this.rejectCommand(invalidRevision, this.mergeOptions(options)), targetPath);
+    }
+
+    const source = this.resolvePath(sourcePath, this.mergeOptions(options));
+    const args = [...this.buildMergeRevisionArgs(options.revisions), ...this.buildMergeFlags(options), ...this.buildAcceptArgs(options.accept), source, targetPath];
+
+    const optionsWithoutRepoUrl = { ...options };
+    delete optionsWithoutRepoUrl.repositoryUrl;
+
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('merge', args, optionsWithoutRepoUrl);
+
+    return this.buildUpdateResult(await this.executeCommand(svnArgs, mergedOptions), targetPath);
+  }
+
+  /**
+   * SVN Revert
+   * Undo local edits and schedule changes
+   */
+  async revert(paths: string[], options: SvnRevertOptions = {}): Promise<SvnAffectedPathsResult> {
+    const args = [...this.buildRecursiveArgs(options.recursive), ...this.buildRemoveAddedArgs(options.removeAdded), ...paths];
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('revert', args, options);
+
+    return this.buildAffectedPathsResult(await this.executeCommand(svnArgs, mergedOptions));
+  }
+
+  /**
+   * SVN Cleanup
+   * Release working copy locks left by interrupted operations, optionally removing unversioned or ignored items
+   */
+  async cleanup(path?: string, options: SvnCleanupOptions = {}): Promise<SvnAffectedPathsResult> {
+    const args = [...this.buildCleanupFlags(options), ...this.buildPathArgs(path)];
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('cleanup', args, options);
+
+    return this.buildAffectedPathsResult(await this.executeCommand(svnArgs, mergedOptions));
+  }
+
+  /**
+   * SVN Resolve
+   * Resolve conflicts on working copy paths with the chosen version
+   */
+  async resolve(paths: string[], options: SvnResolveOptions): Promise<SvnAffectedPathsResult> {
+    const args = ['--accept', options.accept, ...this.buildRecursiveArgs(options.recursive), ...paths];
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('resolve', args, options);
+
+    return this.buildAffectedPathsResult(await this.executeCommand(svnArgs, mergedOptions));
+  }
+
+  /**
+   * SVN Lock
+   * Lock working copy paths or URLs in the repository so no other user can commit changes to them
+   */
+  async lock(paths: string[], options: SvnLockOptions = {}): Promise<SvnCommandResult> {
+    const args = [...this.buildMessageArgs(options.message), ...this.buildForceArgs(options.force), ...paths];
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('lock', args, options);
+
+    return this.executeCommand(svnArgs, mergedOptions);
+  }
+
+  /**
+   * SVN Unlock
+   * Release locks on working copy paths or URLs
+   */
+  async unlock(paths: string[], options: SvnUnlockOptions = {}): Promise<SvnCommandResult> {
+    const args = [...this.buildForceArgs(options.force), ...paths];
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('unlock', args, options);
+
+    return this.executeCommand(svnArgs, mergedOptions);
+  }
+
+  /**
+   * SVN Propset
+   * Set a versioned property on working copy paths or URLs (URL targets are committed immediately and need a message)
+   * The value is passed through a temporary file, so binary values and values starting with '-' are set verbatim
+   */
+  async propSet(name: string, value: string | Buffer, paths: string | string[], options: SvnPropSetOptions = {}): Promise<SvnCommandResult> {
+    const targets = Array.isArray(paths) ? paths : [paths];
+
+    return this.withTempFile(value, async (filePath) => {
+      const args = ['--file', filePath, ...this.buildMessageArgs(options.message), ...this.buildRecursiveDepthArgs(options), ...this.buildForceArgs(options.force), ...targets];
+      const [svnArgs, mergedOptions] = this.buildSvnArgs('propset', args, options, [name]);
+
+      return this.executeCommand(svnArgs, mergedOptions);
+    });
+  }
+
+  /**
+   * SVN Propdel
+   * Remove a versioned property from working copy paths or URLs (URL targets are committed immediately and need a message)
+   */
+  async propDel(name: string, paths: string | string[], options: SvnPropDelOptions = {}): Promise<SvnCommandResult> {
+    const targets = Array.isArray(paths) ? paths : [paths];
+    const args = [...this.buildMessageArgs(options.message), ...this.buildRecursiveDepthArgs(options), ...targets];
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('propdel', args, options, [name]);
+
+    return this.executeCommand(svnArgs, mergedOptions);
+  }
+
+  /**
+   * SVN Propset --revprop
+   * Set a revision property (the repository needs a pre-revprop-change hook allowing the change; path defaults to the working copy, or repositoryUrl)
+   */
+  async revpropSet(name: string, value: string | Buffer, revision: SvnRevision, path?: string, options: SvnOptions = {}): Promise<SvnCommandResult> {
+    return this.withTempFile(value, async (filePath) => {
+      const args = ['--revprop', ...this.buildRevisionArgs(revision), '--file', filePath, path ?? '.'];
+      const [svnArgs, mergedOptions] = this.buildSvnArgs('propset', args, options, [name]);
+
+      return this.executeCommand(svnArgs, mergedOptions);
+    });
+  }
+
+  /**
+   * SVN Propdel --revprop
+   * Delete a revision property (the repository needs a pre-revprop-change hook allowing the change; path defaults to the working copy, or repositoryUrl)
+   */
+  async revpropDel(name: string, revision: SvnRevision, path?: string, options: SvnOptions = {}): Promise<SvnCommandResult> {
+    const args = ['--revprop', ...this.buildRevisionArgs(revision), path ?? '.'];
+    const [svnArgs, mergedOptions] = this.buildSvnArgs('propdel', args, options, [name]);
+
+    return this.executeCommand(svnArgs, mergedOptions);
+  }
+
+  /**
+   * Start a working-copy-free transaction
+   * The collected operations are committed atomically as one revision with svnmucc; paths are resolved against repositoryUrl
+   */
+  remoteTransaction(options: SvnRemoteTransactionOptions = {}): RemoteTransaction {
+    return new RemoteTransaction(async (operations, message) => this.commitRemoteTransaction(operations, message, options));
   }
 
   // ========== Helper Methods ==========
 
   /**
-   * Build path arguments array
+   * Commit remote operations with svnmucc
+   * File contents and property values are passed through temporary files, so binary data and streams are supported
    */
-  private buildPathArgs(path?: string): string[] {
-    return path ? [path] : [];
+  private async commitRemoteTransaction(operations: SvnRemoteOperation[], message: string, options: SvnRemoteTransactionOptions): Promise<SvnCommitResult> {
+    const contents = operations.filter((operation) => operation.action === 'put' || operation.action === 'propset').map((operation) => operation.content);
+
+    return this.withTempFiles(contents, async (filePaths) => {
+      const actions = this.buildRemoteActions(operations, filePaths, this.mergeOptions(options));
+      const args = ['--message', message, ...this.buildBaseRevisionArgs(options.baseRevision), ...this.buildRevpropArgs(options.revprops), ...actions];
+      const [svnmuccArgs, mergedOptions] = this.buildSvnmuccArgs(args, options);
+
+      return this.buildCommitResult(await this.executeCommand(svnmuccArgs, mergedOptions, 'svnmucc'));
+    });
+  }
+
+  /**
+   * Build svnmucc actions with resolved URLs
+   * @param filePaths - Temporary files holding the put contents and propset values, in operation order
+   */
+  private buildRemoteActions(operations: SvnRemoteOperation[], filePaths: string[], options: SvnOptions): string[] {
+    const files = [...filePaths];
+
+    return operations.flatMap((operation) => {
+      const url = this.resolvePath(operation.path, options);
+
+      switch (operation.action) {
+        case 'put':
+          return ['put', files.shift(), url];
+        case 'cp':
+          return ['cp', this.formatRevision(operation.revision ?? 'HEAD'), this.resolvePath(operation.source, options), url];
+        case 'mv':
+          return ['mv', this.resolvePath(operation.source, options), url];
+        case 'propset':
+          return ['propsetf', operation.name, files.shift(), url];
+        case 'propdel':
+          return ['propdel', operation.name, url];
+        default:
+          return [operation.action, url];
+      }
+    });
+  }
+
+  /**
+   * Build svnmucc base revision arguments
+   */
+  private buildBaseRevisionArgs(baseRevision?: number): string[] {
+    return baseRevision !== undefined ? ['--revision', String(baseRevision)] : [];
+  }
+
+  /**
+   * Build checkout command arguments
+   * repositoryUrl option is not applied, both arguments are used as given
+   */
+  private buildCheckoutCommand(repositoryUrl: string, localPath: string, options: SvnCheckoutOptions): [string[], SvnOptions] {
+    const args = [...this.buildRevisionArgs(options.revision), ...this.buildDepthArgs(options.depth), repositoryUrl, localPath];
+
+    const optionsWithoutRepoUrl = { ...options };
+    delete optionsWithoutRepoUrl.repositoryUrl;
+
+    return this.buildSvnArgs('checkout', args, optionsWithoutRepoUrl);
   }
 
   /**
-   * Build revision arguments
+   * Build path arguments array
    */
-  private buildRevisionArgs(revision?: string | number): string[] {
-    return revision ? ['--revision', String(revision)] : [];
+  private buildPathArgs(path?: string): string[] {
+    return path ? [path] : [];
   }
 
   /**
@@ -133,6 +466,266 @@ export class SvnWriteService extends SvnBaseService {
     return depth ? ['--depth', depth] : [];
   }
 
+  /**
+   * Build depth arguments, falling back to --recursive
+   */
+  private buildRecursiveDepthArgs(options: { depth?: string; recursive?: boolean }): string[] {
+    if (options.depth) {
+      return ['--depth', options.depth];
+    }
+
+    return options.recursive ? ['--recursive'] : [];
+  }
+
+  /**
+   * Parse commit output into a structured result
+   * Also used for URL copy/move/mkdir, which commit directly
+   */
+  private buildCommitResult(result: SvnCommandResult): SvnCommitResult {
+    const commit: SvnCommitResult = { ...result, paths: [], warnings: [] };
+    const lines = result.stdout.split(/\r?\n/);
+
+    for (const [index, line] of lines.entries()) {
+      const pathMatch = line.match(COMMIT_PATTERNS.path);
+      if (pathMatch) {
+        commit.paths.push(this.removeUndefinedFields({ path: pathMatch[3], action: COMMIT_ACTIONS[pathMatch[1]], binary: pathMatch[2] ? true : undefined }));
+        continue;
+      }
+
+      const revisionMatch = line.match(COMMIT_PATTERNS.revision);
+      if (revisionMatch) {
+        commit.revision = parseInt(revisionMatch[1] ?? revisionMatch[2], 10);
+        continue;
+      }
+
+      // The warning text (e.g. post-commit hook output) runs until the end of the output
+      const warningMatch = line.match(COMMIT_PATTERNS.warning);
+      if (warningMatch && commit.revision !== undefined) {
+        commit.warnings.push([warningMatch[1], ...lines.slice(index + 1)].join('\n').trim());
+        break;
+      }
+    }
+
+    for (const match of result.stderr.matchAll(COMMIT_PATTERNS.stderrWarning)) {
+      commit.warnings.push(match[1]);
+    }
+
+    return commit;
+  }
+
+  /**
+   * Parse update/checkout notification output into a structured result
+   * Each target starts with "Updating 'path':" (update) and ends with its revision line; checkout prints no header, so defaultTarget is used
+   */
+  private buildUpdateResult(result: SvnCommandResult, defaultTarget: string): SvnUpdateResult {
+    const update: SvnUpdateResult = { ...result, paths: [], targets: [], externals: [], conflicts: [] };
+    let target = defaultTarget;
+    let external: SvnUpdateResult['externals'][number] | undefined;
+
+    for (const line of result.stdout.split(/\r?\n/)) {
+      const pathMatch = line.match(UPDATE_PATTERNS.path);
+      if (pathMatch) {
+        update.paths.push(this.parseUpdatedPath(pathMatch, external?.path));
+        continue;
+      }
+
+      const targetStart = line.match(UPDATE_PATTERNS.targetStart);
+      if (targetStart) {
+        target = targetStart[1];
+        external = undefined;
+        continue;
+      }
+
+      const externalStart = line.match(UPDATE_PATTERNS.externalStart);
+      if (externalStart) {
+        external = { path: externalStart[1] };
+        update.externals.push(external);
+        continue;
+      }
+
+      const externalRevision = line.match(UPDATE_PATTERNS.externalRevision);
+      if (externalRevision && external) {
+        external.revision = parseInt(externalRevision[1], 10);
+        external = undefined;
+        continue;
+      }
+
+      const targetRevision = line.match(UPDATE_PATTERNS.targetRevision);
+      if (targetRevision) {
+        update.targets.push({ path: target, revision: parseInt(targetRevision[1], 10) });
+      }
+    }
+
+    update.conflicts = update.paths.flatMap((updatedPath) => this.getUpdateConflicts(updatedPath));
+    if (update.targets.length > 0) {
+      update.revision = update.targets[update.targets.length - 1].revision;
+    }
+
+    return update;
+  }
+
+  /**
+   * Parse an update notification line (text, property, lock and tree columns followed by the path)
+   */
+  private parseUpdatedPath(match: RegExpMatchArray, external?: string): SvnUpdatedPath {
+    const [, textAction, propAction, lock, treeConflict, path] = match;
+
+    return this.removeUndefinedFields({
+      path,
+      textAction: textAction.trim() || undefined,
+      propAction: propAction.trim() || undefined,
+      lockBroken: lock === 'B' || undefined,
+      treeConflict: treeConflict === 'C' || undefined,
+      external,
+    });
+  }
+
+  /**
+   * Get the conflicts reported for an updated path
+   */
+  private getUpdateConflicts(updatedPath: SvnUpdatedPath): SvnUpdateConflict[] {
+    const conflicts: SvnUpdateConflict[] = [];
+
+    if (updatedPath.textAction === 'C') {
+      conflicts.push({ path: updatedPath.path, kind: 'text' });
+    }
+
+    if (updatedPath.propAction === 'C') {
+      conflicts.push({ path: updatedPath.path, kind: 'property' });
+    }
+
+    if (updatedPath.treeConflict) {
+      conflicts.push({ path: updatedPath.path, kind: 'tree' });
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Find a single merge revision svn would refuse as --change
+   * svn only accepts numbers for --change, so keywords and dates are rejected unless given as a range
+   */
+  private findInvalidMergeRevision(revisions: SvnMergeOptions['revisions'] = []): SvnError | undefined {
+    const invalid = revisions.find((revision) => !this.isRevisionRange(revision) && !/^-?\d+$/.test(this.formatRevision(revision)));
+
+    return invalid !== undefined ? new SvnError(`Invalid merge revision '${this.formatRevision(invalid)}': single revisions must be numbers, use a range for keywords and dates`) : undefined;
+  }
+
+  /**
+   * Build merge revision arguments
+   * Ranges ("5:9" or { start, end }) use --revision, single revisions use --change (negative numbers reverse-merge)
+   */
+  private buildMergeRevisionArgs(revisions: SvnMergeOptions['revisions'] = []): string[] {
+    return revisions.flatMap((revision) => [this.isRevisionRange(revision) ? '--revision' : '--change', this.formatRevision(revision)]);
+  }
+
+  /**
+   * Check whether a revision is a range (a ':' outside of `{date}` braces)
+   */
+  private isRevisionRange(revision: SvnRevision | SvnRevisionRange): boolean {
+    if (typeof revision === 'object') {
+      return !(revision instanceof Date);
+    }
+
+    return String(revision)
+      .replace(/\{[^}]*\}/g, '')
+      .includes(':');
+  }
+
+  /**
+   * Build merge flag arguments
+   */
+  private buildMergeFlags(options: SvnMergeOptions): string[] {
+    const args: string[] = [];
+
+    if (options.reintegrate) {
+      args.push('--reintegrate');
+    }
+
+    if (options.recordOnly) {
+      args.push('--record-only');
+    }
+
+    if (options.dryRun) {
+      args.push('--dry-run');
+    }
+
+    return [...args, ...this.buildIgnoreAncestryArgs(options.ignoreAncestry)];
+  }
+
+  /**
+   * Build ignore-ancestry flag arguments
+   */
+  private buildIgnoreAncestryArgs(ignoreAncestry?: boolean): string[] {
+    return ignoreAncestry ? ['--ignore-ancestry'] : [];
+  }
+
+  /**
+   * Build recursive flag arguments
+   */
+  private buildRecursiveArgs(recursive?: boolean): string[] {
+    return recursive ? ['--recursive'] : [];
+  }
+
+  /**
+   * Build remove-added flag arguments
+   */
+  private buildRemoveAddedArgs(removeAdded?: boolean): string[] {
+    return removeAdded ? ['--remove-added'] : [];
+  }
+
+  /**
+   * Build cleanup flag arguments
+   */
+  private buildCleanupFlags(options: SvnCleanupOptions): string[] {
+    const args: string[] = [];
+
+    if (options.removeUnversioned) {
+      args.push('--remove-unversioned');
+    }
+
+    if (options.removeIgnored) {
+      args.push('--remove-ignored');
+    }
+
+    if (options.vacuumPristines) {
+      args.push('--vacuum-pristines');
+    }
+
+    if (options.includeExternals) {
+      args.push('--include-externals');
+    }
+
+    return args;
+  }
+
+  /**
+   * Attach the paths reported by revert, cleanup or resolve to the command result
+   */
+  private buildAffectedPathsResult(result: SvnCommandResult): SvnAffectedPathsResult {
+    return { ...result, paths: this.parseAffectedPaths(result.stdout) };
+  }
+
+  /**
+   * Parse the notification lines of revert, cleanup and resolve
+   * Unknown lines (e.g. the conflict summary) are ignored
+   */
+  private parseAffectedPaths(output: string): SvnAffectedPath[] {
+    const paths: SvnAffectedPath[] = [];
+
+    for (const line of output.split(/\r?\n/)) {
+      for (const [pattern, build] of AFFECTED_PATH_PATTERNS) {
+        const match = line.match(pattern);
+        if (match) {
+          paths.push(build(match));
+          break;
+        }
+      }
+    }
+
+    return paths;
+  }
+
   /**
    * Build accept arguments
    */
@@ -140,6 +733,13 @@ export class SvnWriteService extends SvnBaseService {
     return accept ? ['--accept', accept] : [];
   }
 
+  /**
+   * Build revision property arguments for the new revision
+   */
+  private buildRevpropArgs(revprops?: Record<string, string>): string[] {
+    return Object.entries(revprops || {}).flatMap(([name, value]) => ['--with-revprop', `${name}=${value}`]);
+  }
+
   /**
    * Build file arguments
    */
@@ -172,7 +772,7 @@ export class SvnWriteService extends SvnBaseService {
    * Build message arguments
    */
   private buildMessageArgs(message?: string): string[] {
-    return message ? ['--message', `"${message}"`] : [];
+    return message ? ['--message', message] : [];
   }
 
   /**
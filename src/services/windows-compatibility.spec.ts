@@ -96,7 +96,7 @@ describe('Windows Compatibility Tests', () => {
     });
   });
 
-  describe('Windows Shell Escaping', () => {
+  describe('Windows Argument Passing', () => {
     beforeEach(() => {
       Object.defineProperty(process, 'platform', {
         value: 'win32',
@@ -105,50 +105,28 @@ describe('Windows Compatibility Tests', () => {
       });
     });
 
-    it('should escape Windows paths with spaces using double quotes', () => {
-      const testCases = [
-        { path: 'C:\\Program Files\\file.txt', expected: '"C:\\Program Files\\file.txt"' },
-        { path: 'C:\\Users\\My Documents\\file.txt', expected: '"C:\\Users\\My Documents\\file.txt"' },
-      ];
+    it('should pass Windows paths with spaces without quoting', () => {
+      const testCases = ['C:\\Program Files\\file.txt', 'C:\\Users\\My Documents\\file.txt'];
 
-      testCases.forEach(({ path: testPath, expected }) => {
-        const result = (readService as any).escapeShellArg(testPath);
-        expect(result).toBe(expected);
+      testCases.forEach((testPath) => {
+        const [args] = (readService as any).buildSvnArgs('cat', [testPath], {});
+        expect(args).toContain((readService as any).resolvePath(testPath, {}));
+        expect(args.some((arg: string) => arg.startsWith('"'))).toBe(false);
       });
     });
 
-    it('should escape Windows paths with double quotes', () => {
-      const testCases = [
-        { path: 'path with "quotes"', expected: '"path with \\"quotes\\""' },
-        // Windows에서 백슬래시가 있는 경우 실제 구현은 백슬래시를 이스케이프함
-        { path: 'C:\\Users\\"Name"\\file.txt', expected: '"C:\\Users\\\\"Name\\"\\file.txt"' },
-      ];
+    it('should pass Windows paths with double quotes verbatim', () => {
+      const testPath = 'path with "quotes"';
+      const [args] = (readService as any).buildSvnArgs('cat', [testPath], {});
 
-      testCases.forEach(({ path: testPath, expected }) => {
-        const result = (readService as any).escapeShellArg(testPath);
-        expect(result).toBe(expected);
-      });
-    });
-
-    it('should handle Windows paths with backslashes', () => {
-      const testCases = [
-        { path: 'C:\\Users\\Name\\file.txt', expected: '"C:\\Users\\Name\\file.txt"' },
-        { path: '\\\\server\\share\\file.txt', expected: '"\\\\server\\share\\file.txt"' },
-      ];
-
-      testCases.forEach(({ path: testPath, expected }) => {
-        const result = (readService as any).escapeShellArg(testPath);
-        expect(result).toBe(expected);
-      });
+      expect(args[args.length - 1]).toBe(testPath);
     });
 
-    it('should not escape simple Windows paths', () => {
-      const simplePath = 'C:\\Users\\Name\\file.txt';
-      const result = (readService as any).escapeShellArg(simplePath);
+    it('should pass commit messages verbatim', () => {
+      const message = 'Message with "quotes" and %PATH% and ^carets^';
+      const [args] = (writeService as any).buildSvnArgs('commit', ['--message', message], {});
 
-      // 공백이 없으면 따옴표가 필요할 수 있지만, 현재 로직에 따라 다름
-      expect(result).toBeDefined();
-      expect(typeof result).toBe('string');
+      expect(args[args.indexOf('--message') + 1]).toBe(message);
     });
   });
 
@@ -163,11 +141,12 @@ describe('Windows Compatibility Tests', () => {
 
     it('should set Windows-compatible locale environment variables', async () => {
       // buildEnvironment는 private이므로 간접적으로 테스트
-      const [command] = (readService as any).buildSvnArgs('info', [], {});
+      const env = (readService as any).buildEnvironment({});
 
       // Windows에서는 LC_MESSAGES, LC_ALL, LANG이 설정되어야 함
-      expect(command).toBeDefined();
-      expect(typeof command).toBe('string');
+      expect(env.LC_MESSAGES).toBe('C');
+      expect(env.LC_ALL).toBe('C');
+      expect(env.LANG).toBe('C');
     });
   });
 
@@ -289,20 +268,18 @@ describe('Windows Compatibility Tests', () => {
 
     it('should build SVN commands with Windows paths', () => {
       const windowsPath = 'C:\\Users\\Test\\file.txt';
-      const [command] = (readService as any).buildSvnArgs('info', [windowsPath], {});
+      const [args] = (readService as any).buildSvnArgs('info', [windowsPath], {});
 
-      expect(command).toBeDefined();
-      expect(command).toContain('svn');
-      expect(command).toContain('info');
+      expect(Array.isArray(args)).toBe(true);
+      expect(args[0]).toBe('info');
     });
 
-    it('should escape Windows paths in commands', () => {
+    it('should keep Windows paths with spaces as a single argument', () => {
       const pathWithSpaces = 'C:\\Program Files\\file.txt';
-      const [command] = (readService as any).buildSvnArgs('cat', [pathWithSpaces], {});
+      const [args] = (readService as any).buildSvnArgs('cat', [pathWithSpaces], {});
 
-      expect(command).toBeDefined();
       // path.normalize가 경로를 소문자로 변환할 수 있음 (Windows 파일 시스템은 대소문자 구분 안 함)
-      expect(command.toLowerCase()).toContain('"c:\\program files\\file.txt"');
+      expect(args[args.length - 1].toLowerCase()).toBe('c:\\program files\\file.txt');
     });
   });
 
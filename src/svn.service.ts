@@ -1,6 +1,8 @@
 import { Injectable } from '@nestjs/common';
+import type { Readable } from 'stream';
 import { SvnReadService } from './services/svn-read.service';
 import { SvnWriteService } from './services/svn-write.service';
+import type { RemoteTransaction } from './services/svn-remote-transaction';
 import type { SvnModuleOptions } from './interfaces/svn-module-options.interface';
 import type {
   SvnOptions,
@@ -11,16 +13,44 @@ import type {
   SvnLogOptions,
   SvnListOptions,
   SvnCatOptions,
+  SvnCatResult,
+  SvnBlameOptions,
+  SvnBlameLine,
+  SvnPropListOptions,
+  SvnPropGetOptions,
+  SvnPropSetOptions,
+  SvnPropDelOptions,
+  SvnPropertyTarget,
+  SvnLockOptions,
+  SvnUnlockOptions,
+  SvnImportOptions,
+  SvnSwitchOptions,
+  SvnMergeOptions,
+  SvnMergeinfoOptions,
+  SvnRemoteTransactionOptions,
+  SvnRevertOptions,
+  SvnCleanupOptions,
+  SvnResolveOptions,
+  SvnAffectedPathsResult,
+  SvnUpdateResult,
+  SvnCommitResult,
   SvnDiffOptions,
+  SvnDiffFile,
+  SvnDiffSummary,
+  SvnSideBySideFile,
   SvnAddOptions,
   SvnRemoveOptions,
   SvnCopyOptions,
   SvnMoveOptions,
   SvnMkdirOptions,
   SvnStatusResult,
+  SvnInfoOptions,
   SvnInfoResult,
+  SvnListEntry,
   SvnLogEntry,
   SvnCommandResult,
+  SvnRevision,
+  SvnTarget,
 } from './interfaces/svn-options.interface';
 
 /**
@@ -52,10 +82,17 @@ export class SvnService {
   /**
    * SVN Info
    */
-  async info(path?: string, options: SvnOptions = {}): Promise<SvnInfoResult | null> {
+  async info(path?: SvnTarget, options: SvnInfoOptions = {}): Promise<SvnInfoResult | null> {
     return this.readService.info(path, options);
   }
 
+  /**
+   * SVN Info (multiple targets)
+   */
+  async infoEntries(paths: SvnTarget | SvnTarget[] = [], options: SvnInfoOptions = {}): Promise<SvnInfoResult[]> {
+    return this.readService.infoEntries(paths, options);
+  }
+
   /**
    * SVN Status
    */
@@ -66,58 +103,200 @@ export class SvnService {
   /**
    * SVN Log
    */
-  async log(path?: string, options: SvnLogOptions = {}): Promise<SvnLogEntry[]> {
-    return this.readService.log(path, options);
+  async log(paths?: SvnTarget | SvnTarget[], options: SvnLogOptions = {}): Promise<SvnLogEntry[]> {
+    return this.readService.log(paths, options);
   }
 
   /**
    * SVN List (ls)
    */
-  async list(path?: string, options: SvnListOptions = {}): Promise<string[]> {
+  async list(path?: SvnTarget, options: SvnListOptions = {}): Promise<string[]> {
     return this.readService.list(path, options);
   }
 
+  /**
+   * SVN List (detailed entries)
+   */
+  async listEntries(paths: SvnTarget | SvnTarget[] = [], options: SvnListOptions = {}): Promise<SvnListEntry[]> {
+    return this.readService.listEntries(paths, options);
+  }
+
+  /**
+   * List locks
+   */
+  async listLocks(path?: string, options: SvnOptions = {}): Promise<SvnListEntry[]> {
+    return this.readService.listLocks(path, options);
+  }
+
+  /**
+   * SVN Mergeinfo
+   */
+  async mergeinfo(sourcePath: string, targetPath?: string, options: SvnMergeinfoOptions = {}): Promise<number[]> {
+    return this.readService.mergeinfo(sourcePath, targetPath, options);
+  }
+
+  /**
+   * SVN Blame (annotate)
+   */
+  async blame(path: SvnTarget, options: SvnBlameOptions = {}): Promise<SvnBlameLine[]> {
+    return this.readService.blame(path, options);
+  }
+
+  /**
+   * SVN Proplist
+   */
+  async propList(path?: SvnTarget, options: SvnPropListOptions = {}): Promise<SvnPropertyTarget[]> {
+    return this.readService.propList(path, options);
+  }
+
+  /**
+   * SVN Propget
+   */
+  async propGet(name: string, path?: SvnTarget, options: SvnPropGetOptions = {}): Promise<string | null> {
+    return this.readService.propGet(name, path, options);
+  }
+
+  /**
+   * SVN Proplist --revprop
+   */
+  async revpropList(revision: SvnRevision, path?: string, options: SvnOptions = {}): Promise<Record<string, string>> {
+    return this.readService.revpropList(revision, path, options);
+  }
+
+  /**
+   * SVN Propget --revprop
+   */
+  async revpropGet(name: string, revision: SvnRevision, path?: string, options: SvnOptions = {}): Promise<string | null> {
+    return this.readService.revpropGet(name, revision, path, options);
+  }
+
   /**
    * SVN Cat (read file content)
    */
-  async cat(path: string, options: SvnCatOptions = {}): Promise<string> {
+  async cat(path: SvnTarget, options: SvnCatOptions = {}): Promise<string> {
     return this.readService.cat(path, options);
   }
 
+  /**
+   * SVN Cat (binary-safe)
+   */
+  async catBuffer(path: SvnTarget, options: SvnCatOptions = {}): Promise<Buffer> {
+    return this.readService.catBuffer(path, options);
+  }
+
+  /**
+   * SVN Cat with svn:mime-type and svn:eol-style
+   */
+  async catFile(path: SvnTarget, options: SvnCatOptions = {}): Promise<SvnCatResult> {
+    return this.readService.catFile(path, options);
+  }
+
   /**
    * SVN Diff
    */
-  async diff(path1?: string, path2?: string, options: SvnDiffOptions = {}): Promise<string> {
+  async diff(path1?: SvnTarget, path2?: SvnTarget, options: SvnDiffOptions = {}): Promise<string> {
     return this.readService.diff(path1, path2, options);
   }
 
+  /**
+   * SVN Diff (structured)
+   */
+  async diffStructured(path1?: SvnTarget, path2?: SvnTarget, options: SvnDiffOptions = {}): Promise<SvnDiffFile[]> {
+    return this.readService.diffStructured(path1, path2, options);
+  }
+
+  /**
+   * SVN Diff (side-by-side)
+   */
+  async diffSideBySide(path1?: SvnTarget, path2?: SvnTarget, options: SvnDiffOptions = {}): Promise<SvnSideBySideFile[]> {
+    return this.readService.diffSideBySide(path1, path2, options);
+  }
+
+  /**
+   * SVN Diff (HTML)
+   */
+  async diffHtml(path1?: SvnTarget, path2?: SvnTarget, options: SvnDiffOptions = {}): Promise<string> {
+    return this.readService.diffHtml(path1, path2, options);
+  }
+
+  /**
+   * SVN Diff --summarize
+   */
+  async diffSummarize(path1?: SvnTarget, path2?: SvnTarget, options: SvnDiffOptions = {}): Promise<SvnDiffSummary[]> {
+    return this.readService.diffSummarize(path1, path2, options);
+  }
+
   /**
    * SVN Export
    */
-  async export(sourcePath: string, destinationPath: string, options: SvnExportOptions = {}): Promise<SvnCommandResult> {
+  async export(sourcePath: SvnTarget, destinationPath: string, options: SvnExportOptions = {}): Promise<SvnCommandResult> {
     return this.readService.export(sourcePath, destinationPath, options);
   }
 
+  // ========== Streaming Operations ==========
+
+  /**
+   * SVN Log (streaming)
+   */
+  logStream(paths?: SvnTarget | SvnTarget[], options: SvnLogOptions = {}): AsyncGenerator<SvnLogEntry> {
+    return this.readService.logStream(paths, options);
+  }
+
+  /**
+   * SVN List (streaming)
+   */
+  listStream(path?: SvnTarget, options: SvnListOptions = {}): AsyncGenerator<string> {
+    return this.readService.listStream(path, options);
+  }
+
+  /**
+   * SVN Cat (streaming)
+   */
+  catStream(path: SvnTarget, options: SvnCatOptions = {}): Readable {
+    return this.readService.catStream(path, options);
+  }
+
+  /**
+   * SVN Diff (streaming)
+   */
+  diffStream(path1?: SvnTarget, path2?: SvnTarget, options: SvnDiffOptions = {}): Readable {
+    return this.readService.diffStream(path1, path2, options);
+  }
+
+  /**
+   * SVN Export (streaming)
+   */
+  exportStream(sourcePath: SvnTarget, destinationPath: string, options: SvnExportOptions = {}): AsyncGenerator<string> {
+    return this.readService.exportStream(sourcePath, destinationPath, options);
+  }
+
+  /**
+   * SVN Checkout (streaming)
+   */
+  checkoutStream(repositoryUrl: string, localPath: string, options: SvnCheckoutOptions = {}): AsyncGenerator<string> {
+    return this.writeService.checkoutStream(repositoryUrl, localPath, options);
+  }
+
   // ========== Write Operations ==========
 
   /**
    * SVN Checkout
    */
-  async checkout(repositoryUrl: string, localPath: string, options: SvnCheckoutOptions = {}): Promise<SvnCommandResult> {
+  async checkout(repositoryUrl: string, localPath: string, options: SvnCheckoutOptions = {}): Promise<SvnUpdateResult> {
     return this.writeService.checkout(repositoryUrl, localPath, options);
   }
 
   /**
    * SVN Update
    */
-  async update(path?: string, options: SvnUpdateOptions = {}): Promise<SvnCommandResult> {
-    return this.writeService.update(path, options);
+  async update(paths?: string | string[], options: SvnUpdateOptions = {}): Promise<SvnUpdateResult> {
+    return this.writeService.update(paths, options);
   }
 
   /**
    * SVN Commit
    */
-  async commit(message: string, options: Omit<SvnCommitOptions, 'message'> = {}): Promise<SvnCommandResult> {
+  async commit(message: string, options: Omit<SvnCommitOptions, 'message'> = {}): Promise<SvnCommitResult> {
     return this.writeService.commit(message, options);
   }
 
@@ -138,21 +317,119 @@ export class SvnService {
   /**
    * SVN Copy
    */
-  async copy(sourcePath: string, destinationPath: string, options: SvnCopyOptions = {}): Promise<SvnCommandResult> {
+  async copy(sourcePath: SvnTarget, destinationPath: string, options: SvnCopyOptions = {}): Promise<SvnCommitResult> {
     return this.writeService.copy(sourcePath, destinationPath, options);
   }
 
   /**
    * SVN Move (rename)
    */
-  async move(sourcePath: string, destinationPath: string, options: SvnMoveOptions = {}): Promise<SvnCommandResult> {
+  async move(sourcePath: string, destinationPath: string, options: SvnMoveOptions = {}): Promise<SvnCommitResult> {
     return this.writeService.move(sourcePath, destinationPath, options);
   }
 
   /**
    * SVN Mkdir
    */
-  async mkdir(paths: string[], options: SvnMkdirOptions = {}): Promise<SvnCommandResult> {
+  async mkdir(paths: string[], options: SvnMkdirOptions = {}): Promise<SvnCommitResult> {
     return this.writeService.mkdir(paths, options);
   }
+
+  /**
+   * SVN Import
+   */
+  async import(localPath: string, url: string, options: SvnImportOptions): Promise<SvnCommitResult> {
+    return this.writeService.import(localPath, url, options);
+  }
+
+  /**
+   * SVN Switch
+   */
+  async switch(url: string, path: string = '.', options: SvnSwitchOptions = {}): Promise<SvnUpdateResult> {
+    return this.writeService.switch(url, path, options);
+  }
+
+  /**
+   * SVN Relocate
+   */
+  async relocate(fromPrefix: string, toPrefix: string, path: string = '.', options: SvnOptions = {}): Promise<SvnUpdateResult> {
+    return this.writeService.relocate(fromPrefix, toPrefix, path, options);
+  }
+
+  /**
+   * SVN Merge
+   */
+  async merge(sourcePath: string, targetPath: string = '.', options: SvnMergeOptions = {}): Promise<SvnUpdateResult> {
+    return this.writeService.merge(sourcePath, targetPath, options);
+  }
+
+  /**
+   * SVN Revert
+   */
+  async revert(paths: string[], options: SvnRevertOptions = {}): Promise<SvnAffectedPathsResult> {
+    return this.writeService.revert(paths, options);
+  }
+
+  /**
+   * SVN Cleanup
+   */
+  async cleanup(path?: string, options: SvnCleanupOptions = {}): Promise<SvnAffectedPathsResult> {
+    return this.writeService.cleanup(path, options);
+  }
+
+  /**
+   * SVN Resolve
+   */
+  async resolve(paths: string[], options: SvnResolveOptions): Promise<SvnAffectedPathsResult> {
+    return this.writeService.resolve(paths, options);
+  }
+
+  /**
+   * SVN Lock
+   */
+  async lock(paths: string[], options: SvnLockOptions = {}): Promise<SvnCommandResult> {
+    return this.writeService.lock(paths, options);
+  }
+
+  /**
+   * SVN Unlock
+   */
+  async unlock(paths: string[], options: SvnUnlockOptions = {}): Promise<SvnCommandResult> {
+    return this.writeService.unlock(paths, options);
+  }
+
+  /**
+   * SVN Propset
+   */
+  async propSet(name: string, value: string | Buffer, paths: string | string[], options: SvnPropSetOptions = {}): Promise<SvnCommandResult> {
+    return this.writeService.propSet(name, value, paths, options);
+  }
+
+  /**
+   * SVN Propdel
+   */
+  async propDel(name: string, paths: string | string[], options: SvnPropDelOptions = {}): Promise<SvnCommandResult> {
+    return this.writeService.propDel(name, paths, options);
+  }
+
+  /**
+   * SVN Propset --revprop
+   */
+  async revpropSet(name: string, value: string | Buffer, revision: SvnRevision, path?: string, options: SvnOptions = {}): Promise<SvnCommandResult> {
+    return this.writeService.revpropSet(name, value, revision, path, options);
+  }
+
+  /**
+   * SVN Propdel --revprop
+   */
+  async revpropDel(name: string, revision: SvnRevision, path?: string, options: SvnOptions = {}): Promise<SvnCommandResult> {
+    return this.writeService.revpropDel(name, revision, path, options);
+  }
+
+  /**
+   * Remote transaction (svnmucc)
+   */
+  remoteTransaction(options: SvnRemoteTransactionOptions = {}): RemoteTransaction {
+    return this.writeService.remoteTransaction(options);
+  }
 }
@@ -0,0 +1,229 @@
+import { parseUnifiedDiff } from './diff-parser';
+
+/**
+ * `svn diff` output (svn 1.9+ labels, property section, binary file)
+ */
+const SVN_DIFF = [
+  'Index: trunk/src/app.ts',
+  '===================================================================',
+  '--- trunk/src/app.ts\t(revision 41)',
+  '+++ trunk/src/app.ts\t(working copy)',
+  '@@ -1,4 +1,5 @@ export class App',
+  ' import a from "a";',
+  '--- removed line that looks like a header',
+  '+++ added line that looks like a header',
+  '+const b = 2;',
+  ' ',
+  ' export default a;',
+  '@@ -20 +21 @@',
+  '-old end',
+  '\\ No newline at end of file',
+  '+new end',
+  'Index: trunk/docs/new.md',
+  '===================================================================',
+  '--- trunk/docs/new.md\t(nonexistent)',
+  '+++ trunk/docs/new.md\t(working copy)',
+  '@@ -0,0 +1,2 @@',
+  '+# Title',
+  '+',
+  'Index: trunk/old.txt',
+  '===================================================================',
+  '--- trunk/old.txt\t(.../trunk)\t(revision 41)',
+  '+++ trunk/old.txt\t(nonexistent)',
+  '@@ -1 +0,0 @@',
+  '-gone',
+  'Index: trunk/logo.png',
+  '===================================================================',
+  'Cannot display: file marked as a binary type.',
+  'svn:mime-type = image/png',
+  'Index: trunk',
+  '===================================================================',
+  '--- trunk\t(revision 41)',
+  '+++ trunk\t(working copy)',
+  '',
+  'Property changes on: trunk',
+  '___________________________________________________________________',
+  'Added: svn:ignore',
+  '## -0,0 +1,2 ##',
+  '+*.log',
+  '+dist',
+  'Modified: svn:mergeinfo',
+  '## -0,0 +0,1 ##',
+  '   Merged /branches/feature:r30-35',
+  'Deleted: svn:eol-style',
+  '## -1 +0,0 ##',
+  '-native',
+  '\\ No newline at end of property',
+  '',
+].join('\n');
+
+/**
+ * `svn diff --git` output
+ */
+const SVN_GIT_DIFF = [
+  'Index: trunk/new.txt',
+  '===================================================================',
+  'diff --git a/trunk/new.txt b/trunk/new.txt',
+  'new file mode 100644',
+  '--- a/trunk/new.txt\t(nonexistent)',
+  '+++ b/trunk/new.txt\t(revision 42)',
+  '@@ -0,0 +1 @@',
+  '+hello',
+  'Index: trunk/gone.txt',
+  '===================================================================',
+  'diff --git a/trunk/gone.txt b/trunk/gone.txt',
+  'deleted file mode 100644',
+  '--- a/trunk/gone.txt\t(revision 41)',
+  '+++ /dev/null\t(nonexistent)',
+  '@@ -1 +0,0 @@',
+  '-bye',
+  'Index: trunk/copy.txt',
+  '===================================================================',
+  'diff --git a/trunk/orig.txt b/trunk/copy.txt',
+  'copy from trunk/orig.txt',
+  'copy to trunk/copy.txt',
+  '--- a/trunk/orig.txt\t(revision 41)',
+  '+++ b/trunk/copy.txt\t(working copy)',
+  '@@ -1 +1 @@',
+  '-a',
+  '+b',
+].join('\n');
+
+/**
+ * Plain git output without Index headers or labels
+ */
+const GIT_DIFF = [
+  'diff --git a/src/a b.ts b/src/a b.ts',
+  'index 83db48f..bf269f4 100644',
+  '--- a/src/a b.ts',
+  '+++ b/src/a b.ts',
+  '@@ -3,2 +3,2 @@ function run() {',
+  ' keep',
+  '-before',
+  '+after',
+  'diff --git a/old.ts b/new.ts',
+  'similarity index 100%',
+  'rename from old.ts',
+  'rename to new.ts',
+  'diff --git a/image.png b/image.png',
+  'Binary files a/image.png and b/image.png differ',
+].join('\n');
+
+describe('diff-parser', () => {
+  describe('svn format', () => {
+    const files = parseUnifiedDiff(SVN_DIFF);
+
+    it('should split the output into files', () => {
+      expect(files.map((file) => file.path)).toEqual(['trunk/src/app.ts', 'trunk/docs/new.md', 'trunk/old.txt', 'trunk/logo.png', 'trunk']);
+    });
+
+    it('should read paths, revisions and labels from the headers', () => {
+      expect(files[0]).toMatchObject({ oldPath: 'trunk/src/app.ts', newPath: 'trunk/src/app.ts', oldRevision: 41, oldLabel: 'revision 41', newLabel: 'working copy' });
+      expect(files[0].newRevision).toBeUndefined();
+      expect(files[2]).toMatchObject({ oldRevision: 41, oldLabel: 'revision 41', newLabel: 'nonexistent' });
+    });
+
+    it('should flag added, deleted, modified and binary files', () => {
+      const flags = files.map(({ added, deleted, modified, binary, propertiesChanged }) => ({ added, deleted, modified, binary, propertiesChanged }));
+
+      expect(flags).toEqual([
+        { added: false, deleted: false, modified: true, binary: false, propertiesChanged: false },
+        { added: true, deleted: false, modified: false, binary: false, propertiesChanged: false },
+        { added: false, deleted: true, modified: false, binary: false, propertiesChanged: false },
+        { added: false, deleted: false, modified: true, binary: true, propertiesChanged: false },
+        { added: false, deleted: false, modified: false, binary: false, propertiesChanged: true },
+      ]);
+      expect(files[3].mimeType).toBe('image/png');
+    });
+
+    it('should read hunks with typed lines, line numbers and counts', () => {
+      const [first, second] = files[0].hunks;
+
+      expect(first).toMatchObject({ oldStart: 1, oldLines: 4, newStart: 1, newLines: 5, heading: 'export class App', additions: 2, deletions: 1 });
+      expect(first.lines).toEqual([
+        { type: 'context', content: 'import a from "a";', oldLineNumber: 1, newLineNumber: 1 },
+        { type: 'deleted', content: '-- removed line that looks like a header', oldLineNumber: 2 },
+        { type: 'added', content: '++ added line that looks like a header', newLineNumber: 2 },
+        { type: 'added', content: 'const b = 2;', newLineNumber: 3 },
+        { type: 'context', content: '', oldLineNumber: 3, newLineNumber: 4 },
+        { type: 'context', content: 'export default a;', oldLineNumber: 4, newLineNumber: 5 },
+      ]);
+      expect(second).toMatchObject({ oldStart: 20, oldLines: 1, newStart: 21, newLines: 1 });
+      expect(second.lines[0]).toEqual({ type: 'deleted', content: 'old end', oldLineNumber: 20, noNewlineAtEnd: true });
+      expect(files[0]).toMatchObject({ additions: 3, deletions: 2 });
+      expect(files[1].hunks[0].lines.map((line) => line.newLineNumber)).toEqual([1, 2]);
+    });
+
+    it('should read property changes', () => {
+      expect(files[4].properties).toEqual([
+        {
+          name: 'svn:ignore',
+          action: 'added',
+          hunks: [expect.objectContaining({ oldStart: 0, oldLines: 0, newStart: 1, newLines: 2, additions: 2 })],
+        },
+        {
+          name: 'svn:mergeinfo',
+          action: 'modified',
+          hunks: [expect.objectContaining({ newLines: 1, lines: [] })],
+        },
+        {
+          name: 'svn:eol-style',
+          action: 'deleted',
+          hunks: [expect.objectContaining({ lines: [{ type: 'deleted', content: 'native', oldLineNumber: 1, noNewlineAtEnd: true }] })],
+        },
+      ]);
+    });
+
+    it('should start a file for property changes without an Index header', () => {
+      const [file] = parseUnifiedDiff(
+        ['', 'Property changes on: trunk/a.txt', '___________________________________________________________________', 'Added: svn:keywords', '## -0,0 +1 ##', '+Id'].join('\n'),
+      );
+
+      expect(file).toMatchObject({ path: 'trunk/a.txt', propertiesChanged: true, modified: false, hunks: [] });
+      expect(file.properties[0].hunks[0].lines).toEqual([{ type: 'added', content: 'Id', newLineNumber: 1 }]);
+    });
+
+    it('should read empty context lines of trimmed output', () => {
+      const [file] = parseUnifiedDiff(['Index: a.txt', '--- a.txt\t(revision 1)', '+++ a.txt\t(working copy)', '@@ -1,2 +1,2 @@', '-x', '+y', ''].join('\n'));
+
+      expect(file.hunks[0].lines[2]).toEqual({ type: 'context', content: '', oldLineNumber: 2, newLineNumber: 2 });
+    });
+
+    it('should return no files for empty output', () => {
+      expect(parseUnifiedDiff('')).toEqual([]);
+    });
+  });
+
+  describe('svn --git format', () => {
+    const files = parseUnifiedDiff(SVN_GIT_DIFF);
+
+    it('should merge the git header into the Index file and strip a/ b/ prefixes', () => {
+      expect(files.map((file) => file.path)).toEqual(['trunk/new.txt', 'trunk/gone.txt', 'trunk/copy.txt']);
+      expect(files[0]).toMatchObject({ oldPath: 'trunk/new.txt', newPath: 'trunk/new.txt', newRevision: 42, added: true, deleted: false });
+    });
+
+    it('should flag deleted files and keep the old path', () => {
+      expect(files[1]).toMatchObject({ oldPath: 'trunk/gone.txt', added: false, deleted: true, modified: false, deletions: 1 });
+    });
+
+    it('should report copy sources', () => {
+      expect(files[2]).toMatchObject({ copyFrom: 'trunk/orig.txt', oldPath: 'trunk/orig.txt', newPath: 'trunk/copy.txt', modified: true, additions: 1, deletions: 1 });
+    });
+  });
+
+  describe('plain git format', () => {
+    const files = parseUnifiedDiff(GIT_DIFF);
+
+    it('should start files at diff --git headers', () => {
+      expect(files.map((file) => file.path)).toEqual(['src/a b.ts', 'new.ts', 'image.png']);
+      expect(files[0]).toMatchObject({ oldPath: 'src/a b.ts', newPath: 'src/a b.ts', modified: true });
+      expect(files[0].oldLabel).toBeUndefined();
+      expect(files[0].hunks[0]).toMatchObject({ heading: 'function run() {', oldStart: 3, additions: 1, deletions: 1 });
+    });
+
+    it('should report renames and binary files', () => {
+      expect(files[1]).toMatchObject({ renameFrom: 'old.ts', oldPath: 'old.ts', newPath: 'new.ts', hunks: [] });
+      expect(files[2]).toMatchObject({ binary: true, modified: true });
+    });
+  });
+});
@@ -0,0 +1,361 @@
+/**
+ * Parser for unified diff output of `svn diff`, `svn diff --git` and plain git diffs
+ * Produces one entry per file with its headers, hunks and property changes; unknown lines are ignored.
+ */
+import type { SvnDiffFile, SvnDiffHunk, SvnDiffPropertyChange } from '../interfaces/svn-options.interface';
+
+/**
+ * Diff output lines
+ */
+const DIFF_PATTERNS = {
+  index: /^Index: (.+)$/,
+  separator: /^(?:=+|_+)$/,
+  gitHeader: /^diff --git (.+)$/,
+  oldHeader: /^--- (.+)$/,
+  newHeader: /^\+\+\+ (.+)$/,
+  hunk: /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/,
+  propertyHunk: /^## -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? ##/,
+  propertySection: /^Property changes on: (.+)$/,
+  property: /^(Added|Deleted|Modified|Name): (.+)$/,
+  binary: /^(?:Cannot display: file marked as a binary type\.|Binary files .+ differ|GIT binary patch)$/,
+  mimeType: /^svn:mime-type = (.*)$/,
+  gitExtended: /^(new file mode|deleted file mode|copy from|copy to|rename from|rename to) (.+)$/,
+  revisionLabel: /^revision (\d+)$/,
+} as const;
+
+/**
+ * Property section verbs by action ("Name:" is used by svn 1.6 for modified properties)
+ */
+const PROPERTY_ACTIONS: Record<string, SvnDiffPropertyChange['action']> = {
+  Added: 'added',
+  Deleted: 'deleted',
+  Modified: 'modified',
+  Name: 'modified',
+};
+
+/**
+ * Side of a file that does not exist in git format
+ */
+const DEV_NULL = '/dev/null';
+
+/**
+ * Hunk being read, with the lines still expected on each side
+ */
+interface OpenHunk {
+  hunk: SvnDiffHunk;
+  oldRemaining: number;
+  newRemaining: number;
+  oldLine: number;
+  newLine: number;
+}
+
+/**
+ * File being read, with format details needed until it is complete
+ */
+interface OpenFile {
+  file: SvnDiffFile;
+  git: boolean;
+  oldMissing: boolean;
+  newMissing: boolean;
+}
+
+class UnifiedDiffParser {
+  readonly files: SvnDiffFile[] = [];
+
+  private current?: OpenFile;
+  private openHunk?: OpenHunk;
+  private property?: SvnDiffPropertyChange;
+  private inProperties = false;
+
+  parseLine(line: string): void {
+    if (this.openHunk && this.consumeHunkLine(line)) {
+      return;
+    }
+    this.openHunk = undefined;
+
+    const indexMatch = line.match(DIFF_PATTERNS.index);
+    if (indexMatch) {
+      this.startFile(indexMatch[1]);
+
+      return;
+    }
+
+    const gitMatch = line.match(DIFF_PATTERNS.gitHeader);
+    if (gitMatch) {
+      this.handleGitHeader(gitMatch[1]);
+
+      return;
+    }
+
+    const propertySectionMatch = line.match(DIFF_PATTERNS.propertySection);
+    if (propertySectionMatch) {
+      if (!this.current || this.current.file.path !== propertySectionMatch[1]) {
+        this.startFile(propertySectionMatch[1]);
+      }
+      this.inProperties = true;
+
+      return;
+    }
+
+    if (DIFF_PATTERNS.separator.test(line)) {
+      return;
+    }
+
+    if (this.inProperties) {
+      this.handlePropertyLine(line);
+
+      return;
+    }
+
+    this.handleFileLine(line);
+  }
+
+  end(): SvnDiffFile[] {
+    this.finishFile();
+
+    return this.files;
+  }
+
+  private handleFileLine(line: string): void {
+    const hunkMatch = line.match(DIFF_PATTERNS.hunk);
+    if (hunkMatch) {
+      this.ensureFile('').file.hunks.push(this.openHunkFrom(hunkMatch));
+
+      return;
+    }
+
+    const oldMatch = line.match(DIFF_PATTERNS.oldHeader);
+    if (oldMatch) {
+      const current = this.current && !this.current.file.oldLabel && this.current.file.hunks.length === 0 ? this.current : this.startFile('');
+      const { path, label } = this.parseSideHeader(oldMatch[1], current.git ? 'a/' : '');
+      current.oldMissing = current.oldMissing || path === DEV_NULL;
+      this.assign(current.file, { oldPath: path === DEV_NULL ? undefined : path, oldLabel: label, oldRevision: this.parseRevision(label) });
+
+      return;
+    }
+
+    const newMatch = line.match(DIFF_PATTERNS.newHeader);
+    if (newMatch && this.current) {
+      const { path, label } = this.parseSideHeader(newMatch[1], this.current.git ? 'b/' : '');
+      this.current.newMissing = this.current.newMissing || path === DEV_NULL;
+      this.assign(this.current.file, { newPath: path === DEV_NULL ? undefined : path, newLabel: label, newRevision: this.parseRevision(label) });
+
+      if (!this.current.file.path) {
+        this.current.file.path = this.current.file.newPath ?? this.current.file.oldPath ?? '';
+      }
+
+      return;
+    }
+
+    if (!this.current) {
+      return;
+    }
+
+    if (DIFF_PATTERNS.binary.test(line)) {
+      this.current.file.binary = true;
+
+      return;
+    }
+
+    const mimeTypeMatch = line.match(DIFF_PATTERNS.mimeType);
+    if (mimeTypeMatch) {
+      this.current.file.mimeType = mimeTypeMatch[1];
+
+      return;
+    }
+
+    const extendedMatch = line.match(DIFF_PATTERNS.gitExtended);
+    if (extendedMatch) {
+      this.handleGitExtendedHeader(extendedMatch[1], extendedMatch[2]);
+    }
+  }
+
+  private handlePropertyLine(line: string): void {
+    const propertyMatch = line.match(DIFF_PATTERNS.property);
+    if (propertyMatch) {
+      this.property = { name: propertyMatch[2], action: PROPERTY_ACTIONS[propertyMatch[1]], hunks: [] };
+      this.current.file.properties.push(this.property);
+
+      return;
+    }
+
+    const hunkMatch = line.match(DIFF_PATTERNS.propertyHunk);
+    if (hunkMatch && this.property) {
+      this.property.hunks.push(this.openHunkFrom(hunkMatch));
+    }
+  }
+
+  /**
+   * "diff --git a/old b/new" starts a file unless it follows the "Index:" header of the same file (svn --git)
+   */
+  private handleGitHeader(paths: string): void {
+    const current = this.current;
+    const startsNewFile = !current || current.git || current.file.hunks.length > 0 || this.inProperties;
+    const separator = paths.lastIndexOf(' b/');
+    const oldPath = separator === -1 ? undefined : paths.slice(0, separator).replace(/^a\//, '');
+    const newPath = separator === -1 ? paths : paths.slice(separator + 3);
+
+    const target = startsNewFile ? this.startFile(newPath) : current;
+    target.git = true;
+    this.assign(target.file, { oldPath, newPath });
+  }
+
+  private handleGitExtendedHeader(header: string, value: string): void {
+    const { file } = this.current;
+
+    switch (header) {
+      case 'new file mode':
+        this.current.oldMissing = true;
+        break;
+      case 'deleted file mode':
+        this.current.newMissing = true;
+        break;
+      case 'copy from':
+        file.copyFrom = value;
+        break;
+      case 'rename from':
+        file.renameFrom = value;
+        break;
+      default:
+        file.newPath = value;
+    }
+  }
+
+  /**
+   * Consume a line of the open hunk
+   * @returns false once the line does not belong to the hunk anymore
+   */
+  private consumeHunkLine(line: string): boolean {
+    const open = this.openHunk;
+    const lines = open.hunk.lines;
+
+    if (line.startsWith('\\')) {
+      if (lines.length > 0) {
+        lines[lines.length - 1].noNewlineAtEnd = true;
+      }
+
+      return true;
+    }
+
+    const marker = line[0];
+
+    // Empty lines are context lines whose leading space was stripped (e.g. by trimming the output)
+    if ((marker === ' ' || line === '') && open.oldRemaining > 0 && open.newRemaining > 0) {
+      lines.push({ type: 'context', content: line.slice(1), oldLineNumber: open.oldLine++, newLineNumber: open.newLine++ });
+      open.oldRemaining--;
+      open.newRemaining--;
+
+      return true;
+    }
+
+    if (marker === '-' && open.oldRemaining > 0) {
+      lines.push({ type: 'deleted', content: line.slice(1), oldLineNumber: open.oldLine++ });
+      open.oldRemaining--;
+      open.hunk.deletions++;
+
+      return true;
+    }
+
+    if (marker === '+' && open.newRemaining > 0) {
+      lines.push({ type: 'added', content: line.slice(1), newLineNumber: open.newLine++ });
+      open.newRemaining--;
+      open.hunk.additions++;
+
+      return true;
+    }
+
+    return false;
+  }
+
+  private openHunkFrom(match: RegExpMatchArray): SvnDiffHunk {
+    const [oldStart, oldLines, newStart, newLines] = [match[1], match[2] ?? '1', match[3], match[4] ?? '1'].map((value) => parseInt(value, 10));
+    const hunk: SvnDiffHunk = { oldStart, oldLines, newStart, newLines, additions: 0, deletions: 0, lines: [] };
+
+    if (match[5]) {
+      hunk.heading = match[5];
+    }
+
+    // An empty side starts at line 0, its first line would be line 1
+    this.openHunk = { hunk, oldRemaining: oldLines, newRemaining: newLines, oldLine: Math.max(oldStart, 1), newLine: Math.max(newStart, 1) };
+
+    return hunk;
+  }
+
+  /**
+   * Split a "---"/"+++" header into path and the last parenthesized label ("path\t(.../branch)\t(revision 5)")
+   */
+  private parseSideHeader(header: string, gitPrefix: string): { path: string; label?: string } {
+    const [rawPath, ...labels] = header.split('\t');
+    const path = rawPath.trim();
+    const label = labels
+      .map((value) => value.trim().replace(/^\((.*)\)$/, '$1'))
+      .filter(Boolean)
+      .pop();
+
+    return { path: gitPrefix && path.startsWith(gitPrefix) ? path.slice(gitPrefix.length) : path, label };
+  }
+
+  private parseRevision(label?: string): number | undefined {
+    const match = label?.match(DIFF_PATTERNS.revisionLabel);
+
+    return match ? parseInt(match[1], 10) : undefined;
+  }
+
+  private assign(file: SvnDiffFile, values: Partial<SvnDiffFile>): void {
+    Object.entries(values).forEach(([key, value]) => {
+      if (value !== undefined) {
+        file[key] = value;
+      }
+    });
+  }
+
+  private ensureFile(path: string): OpenFile {
+    return this.current ?? this.startFile(path);
+  }
+
+  private startFile(path: string): OpenFile {
+    this.finishFile();
+
+    this.current = {
+      file: { path, added: false, deleted: false, modified: false, propertiesChanged: false, binary: false, additions: 0, deletions: 0, hunks: [], properties: [] },
+      git: false,
+      oldMissing: false,
+      newMissing: false,
+    };
+    this.inProperties = false;
+    this.property = undefined;
+
+    return this.current;
+  }
+
+  private finishFile(): void {
+    if (!this.current) {
+      return;
+    }
+
+    const { file, oldMissing, newMissing } = this.current;
+
+    // svn prints "(nonexistent)" for the missing side, svn < 1.7 "(revision 0)" for added files
+    file.added = oldMissing || file.oldLabel === 'nonexistent' || file.oldLabel === 'revision 0';
+    file.deleted = !file.added && (newMissing || file.newLabel === 'nonexistent');
+    file.modified = !file.added && !file.deleted && (file.hunks.length > 0 || file.binary);
+    file.propertiesChanged = file.properties.length > 0;
+    file.additions = file.hunks.reduce((sum, hunk) => sum + hunk.additions, 0);
+    file.deletions = file.hunks.reduce((sum, hunk) => sum + hunk.deletions, 0);
+
+    this.files.push(file);
+    this.current = undefined;
+  }
+}
+
+/**
+ * Parse unified diff output into files with hunks and property changes
+ * Handles `svn diff` (Index: headers, revision labels, property sections), `svn diff --git` and plain git diffs
+ */
+export function parseUnifiedDiff(diff: string): SvnDiffFile[] {
+  const parser = new UnifiedDiffParser();
+
+  diff.split(/\r?\n/).forEach((line) => parser.parseLine(line));
+
+  return parser.end();
+}
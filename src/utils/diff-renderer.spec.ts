@@ -0,0 +1,128 @@
+import { parseUnifiedDiff } from './diff-parser';
+import { diffWords, renderDiffHtml, renderSideBySide } from './diff-renderer';
+
+const DIFF = [
+  'Index: src/app.ts',
+  '===================================================================',
+  '--- src/app.ts\t(revision 7)',
+  '+++ src/app.ts\t(working copy)',
+  '@@ -1,5 +1,5 @@ class App',
+  ' const a = 1;',
+  '-const total = price * 2;',
+  '-const unused = <T>(value: T) => value;',
+  '+const total = price * 3;',
+  ' return a;',
+  '-old();',
+  '+fresh();',
+  '+extra();',
+  '\\ No newline at end of file',
+  'Index: logo.png',
+  '===================================================================',
+  'Cannot display: file marked as a binary type.',
+  'svn:mime-type = image/png',
+  '',
+  'Property changes on: logo.png',
+  '___________________________________________________________________',
+  'Added: svn:mime-type',
+  '## -0,0 +1 ##',
+  '+image/png',
+].join('\n');
+
+describe('diff-renderer', () => {
+  describe('diffWords', () => {
+    it('should mark only the changed words of a line', () => {
+      expect(diffWords('const total = price * 2;', 'const total = price * 3;')).toEqual([
+        [
+          { text: 'const total = price * ', changed: false },
+          { text: '2', changed: true },
+          { text: ';', changed: false },
+        ],
+        [
+          { text: 'const total = price * ', changed: false },
+          { text: '3', changed: true },
+          { text: ';', changed: false },
+        ],
+      ]);
+    });
+
+    it('should handle insertions, deletions and non-ASCII words', () => {
+      expect(diffWords('Größe alt', 'neue Größe alt')).toEqual([
+        [{ text: 'Größe alt', changed: false }],
+        [
+          { text: 'neue ', changed: true },
+          { text: 'Größe alt', changed: false },
+        ],
+      ]);
+      expect(diffWords('return a + b;', 'return a;')).toEqual([
+        [
+          { text: 'return a', changed: false },
+          { text: ' + b', changed: true },
+          { text: ';', changed: false },
+        ],
+        [{ text: 'return a;', changed: false }],
+      ]);
+    });
+
+    it('should highlight very long lines as a whole', () => {
+      const oldText = 'a '.repeat(1000);
+      const newText = 'b '.repeat(1000);
+
+      expect(diffWords(oldText, newText)).toEqual([[{ text: oldText, changed: true }], [{ text: newText, changed: true }]]);
+      expect(diffWords('', 'x')).toEqual([[], [{ text: 'x', changed: true }]]);
+    });
+  });
+
+  describe('renderSideBySide', () => {
+    const [file, binaryFile] = renderSideBySide(parseUnifiedDiff(DIFF));
+
+    it('should pair deleted and added lines as modified rows', () => {
+      const rows = file.hunks[0].rows;
+
+      expect(rows.map((row) => row.type)).toEqual(['context', 'modified', 'deleted', 'context', 'modified', 'added']);
+      expect(rows[1].left).toMatchObject({ lineNumber: 2, content: 'const total = price * 2;' });
+      expect(rows[1].right.segments).toContainEqual({ text: '3', changed: true });
+      expect(rows[2]).toEqual({
+        type: 'deleted',
+        left: { lineNumber: 3, content: 'const unused = <T>(value: T) => value;', segments: [{ text: 'const unused = <T>(value: T) => value;', changed: false }] },
+      });
+      expect(rows[3]).toMatchObject({ left: { lineNumber: 4 }, right: { lineNumber: 3 } });
+      expect(rows[5]).toEqual({ type: 'added', right: { lineNumber: 5, content: 'extra();', segments: [{ text: 'extra();', changed: false }], noNewlineAtEnd: true } });
+    });
+
+    it('should keep file metadata and convert property hunks', () => {
+      expect(file).toMatchObject({ path: 'src/app.ts', oldRevision: 7, modified: true, additions: 3, deletions: 3 });
+      expect(file.hunks[0]).toMatchObject({ oldStart: 1, newStart: 1, heading: 'class App' });
+      expect(binaryFile.properties[0]).toMatchObject({ name: 'svn:mime-type', action: 'added', hunks: [{ rows: [{ type: 'added', right: { content: 'image/png' } }] }] });
+    });
+
+    it('should produce plain JSON data', () => {
+      const files = renderSideBySide(parseUnifiedDiff(DIFF));
+
+      expect(JSON.parse(JSON.stringify(files))).toEqual(files);
+    });
+  });
+
+  describe('renderDiffHtml', () => {
+    const html = renderDiffHtml(renderSideBySide(parseUnifiedDiff(DIFF)));
+
+    it('should escape content and wrap word changes in del and ins', () => {
+      expect(html).toContain('<td class="svn-diff-line-number">2</td><td class="svn-diff-code">const total = price * <del>2</del>;</td>');
+      expect(html).toContain('<td class="svn-diff-code">const total = price * <ins>3</ins>;</td>');
+      expect(html).toContain('const unused = &lt;T&gt;(value: T) =&gt; value;');
+      expect(html).not.toContain('<T>');
+    });
+
+    it('should render file headers, hunk headers, empty sides and binary notices', () => {
+      expect(html).toContain('<div class="svn-diff-file" data-path="src/app.ts">');
+      expect(html).toContain('<span class="svn-diff-badge svn-diff-badge-modified">modified</span>');
+      expect(html).toContain('<tr class="svn-diff-hunk"><td colspan="4">@@ -1,5 +1,5 @@ class App</td></tr>');
+      expect(html).toContain('<tr class="svn-diff-row svn-diff-added"><td class="svn-diff-line-number"></td><td class="svn-diff-code svn-diff-empty"></td>');
+      expect(html).toContain('<div class="svn-diff-binary">Binary file not shown</div>');
+      expect(html).toContain('Property <span class="svn-diff-property-name">svn:mime-type</span> added');
+    });
+
+    it('should render an empty container without files', () => {
+      expect(renderDiffHtml([])).toBe('<div class="svn-diff">\n</div>');
+    });
+  });
+});
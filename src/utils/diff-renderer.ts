@@ -0,0 +1,225 @@
+/**
+ * Rendering of parsed diffs for display: side-by-side rows with word-level highlights, and HTML
+ * The side-by-side structure is plain data and can be served as JSON as is.
+ */
+import type { SvnDiffFile, SvnDiffHunk, SvnDiffLine, SvnDiffSegment, SvnSideBySideCell, SvnSideBySideFile, SvnSideBySideHunk, SvnSideBySideRow } from '../interfaces/svn-options.interface';
+
+/**
+ * Words, whitespace runs and single punctuation characters
+ */
+const WORD_PATTERN = /[\p{L}\p{N}_]+|\s+|[^\p{L}\p{N}_\s]/gu;
+
+/**
+ * Largest token matrix compared word by word; longer line pairs are highlighted as a whole
+ */
+const MAX_WORD_DIFF_CELLS = 250_000;
+
+/**
+ * Characters escaped in HTML text and attribute values
+ */
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Compare two lines word by word
+ * @returns Segments of the old and the new line; `changed` marks words that are not in the other line
+ */
+export function diffWords(oldText: string, newText: string): [SvnDiffSegment[], SvnDiffSegment[]] {
+  const oldTokens = oldText.match(WORD_PATTERN) ?? [];
+  const newTokens = newText.match(WORD_PATTERN) ?? [];
+
+  if (oldTokens.length * newTokens.length > MAX_WORD_DIFF_CELLS) {
+    return [toSegments([[oldText, true]]), toSegments([[newText, true]])];
+  }
+
+  // Longest common subsequence lengths of the token suffixes
+  const table = Array.from({ length: oldTokens.length + 1 }, () => new Uint32Array(newTokens.length + 1));
+  for (let i = oldTokens.length - 1; i >= 0; i--) {
+    for (let j = newTokens.length - 1; j >= 0; j--) {
+      table[i][j] = oldTokens[i] === newTokens[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const oldParts: Array<[string, boolean]> = [];
+  const newParts: Array<[string, boolean]> = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < oldTokens.length && j < newTokens.length) {
+    if (oldTokens[i] === newTokens[j]) {
+      oldParts.push([oldTokens[i++], false]);
+      newParts.push([newTokens[j++], false]);
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      oldParts.push([oldTokens[i++], true]);
+    } else {
+      newParts.push([newTokens[j++], true]);
+    }
+  }
+
+  oldTokens.slice(i).forEach((token) => oldParts.push([token, true]));
+  newTokens.slice(j).forEach((token) => newParts.push([token, true]));
+
+  return [toSegments(oldParts), toSegments(newParts)];
+}
+
+/**
+ * Convert parsed diff files to side-by-side rows
+ * Runs of deleted lines followed by added lines are paired as modified rows with word-level highlights
+ */
+export function renderSideBySide(files: SvnDiffFile[]): SvnSideBySideFile[] {
+  return files.map((file) => ({
+    ...file,
+    hunks: file.hunks.map(toSideBySideHunk),
+    properties: file.properties.map((property) => ({ ...property, hunks: property.hunks.map(toSideBySideHunk) })),
+  }));
+}
+
+/**
+ * Render side-by-side files as an HTML fragment
+ * Markup uses `svn-diff-*` classes for styling; word-level changes are wrapped in <del> (old side) and <ins> (new side)
+ */
+export function renderDiffHtml(files: SvnSideBySideFile[]): string {
+  const html = ['<div class="svn-diff">'];
+
+  for (const file of files) {
+    html.push(`<div class="svn-diff-file" data-path="${escapeHtml(file.path)}">`);
+    html.push(`<div class="svn-diff-file-header"><span class="svn-diff-path">${escapeHtml(file.path)}</span>${renderBadges(file)}</div>`);
+
+    if (file.binary) {
+      html.push('<div class="svn-diff-binary">Binary file not shown</div>');
+    }
+
+    if (file.hunks.length > 0) {
+      html.push(renderTable(file.hunks));
+    }
+
+    for (const property of file.properties) {
+      html.push(`<div class="svn-diff-property-header">Property <span class="svn-diff-property-name">${escapeHtml(property.name)}</span> ${property.action}</div>`);
+      html.push(renderTable(property.hunks));
+    }
+
+    html.push('</div>');
+  }
+
+  html.push('</div>');
+
+  return html.join('\n');
+}
+
+function toSideBySideHunk({ lines, ...hunk }: SvnDiffHunk): SvnSideBySideHunk {
+  const rows: SvnSideBySideRow[] = [];
+  let deleted: SvnDiffLine[] = [];
+  let added: SvnDiffLine[] = [];
+
+  const flush = (): void => {
+    deleted.forEach((oldLine, index) => {
+      const newLine = added[index];
+      if (!newLine) {
+        rows.push({ type: 'deleted', left: toCell(oldLine, oldLine.oldLineNumber) });
+
+        return;
+      }
+
+      const [oldSegments, newSegments] = diffWords(oldLine.content, newLine.content);
+      rows.push({ type: 'modified', left: toCell(oldLine, oldLine.oldLineNumber, oldSegments), right: toCell(newLine, newLine.newLineNumber, newSegments) });
+    });
+    added.slice(deleted.length).forEach((newLine) => rows.push({ type: 'added', right: toCell(newLine, newLine.newLineNumber) }));
+
+    deleted = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === 'context') {
+      flush();
+      rows.push({ type: 'context', left: toCell(line, line.oldLineNumber), right: toCell(line, line.newLineNumber) });
+    } else if (line.type === 'deleted') {
+      // A deletion after additions starts a new change block
+      if (added.length > 0) {
+        flush();
+      }
+      deleted.push(line);
+    } else {
+      added.push(line);
+    }
+  }
+  flush();
+
+  return { ...hunk, rows };
+}
+
+function toCell(line: SvnDiffLine, lineNumber: number, segments: SvnDiffSegment[] = toSegments([[line.content, false]])): SvnSideBySideCell {
+  const cell: SvnSideBySideCell = { lineNumber, content: line.content, segments };
+
+  if (line.noNewlineAtEnd) {
+    cell.noNewlineAtEnd = true;
+  }
+
+  return cell;
+}
+
+/**
+ * Build segments, merging neighbours with the same state and dropping empty text
+ */
+function toSegments(parts: Array<[string, boolean]>): SvnDiffSegment[] {
+  const segments: SvnDiffSegment[] = [];
+
+  for (const [text, changed] of parts) {
+    if (!text) {
+      continue;
+    }
+
+    const last = segments[segments.length - 1];
+    if (last && last.changed === changed) {
+      last.text += text;
+    } else {
+      segments.push({ text, changed });
+    }
+  }
+
+  return segments;
+}
+
+function renderBadges(file: SvnSideBySideFile): string {
+  const flags: Record<string, boolean> = { added: file.added, deleted: file.deleted, modified: file.modified, binary: file.binary, properties: file.propertiesChanged };
+
+  return Object.keys(flags)
+    .filter((badge) => flags[badge])
+    .map((badge) => ` <span class="svn-diff-badge svn-diff-badge-${badge}">${badge}</span>`)
+    .join('');
+}
+
+function renderTable(hunks: SvnSideBySideHunk[]): string {
+  const rows = hunks.flatMap((hunk) => [
+    `<tr class="svn-diff-hunk"><td colspan="4">${escapeHtml(formatHunkHeader(hunk))}</td></tr>`,
+    ...hunk.rows.map((row) => `<tr class="svn-diff-row svn-diff-${row.type}">${renderCell(row.left, 'del')}${renderCell(row.right, 'ins')}</tr>`),
+  ]);
+
+  return ['<table class="svn-diff-table">', '<tbody>', ...rows, '</tbody>', '</table>'].join('\n');
+}
+
+function renderCell(cell: SvnSideBySideCell | undefined, changeTag: 'del' | 'ins'): string {
+  if (!cell) {
+    return '<td class="svn-diff-line-number"></td><td class="svn-diff-code svn-diff-empty"></td>';
+  }
+
+  const code = cell.segments.map((segment) => (segment.changed ? `<${changeTag}>${escapeHtml(segment.text)}</${changeTag}>` : escapeHtml(segment.text))).join('');
+  const noNewline = cell.noNewlineAtEnd ? '<span class="svn-diff-no-newline" title="No newline at end of file"></span>' : '';
+
+  return `<td class="svn-diff-line-number">${cell.lineNumber}</td><td class="svn-diff-code">${code}${noNewline}</td>`;
+}
+
+function formatHunkHeader(hunk: SvnSideBySideHunk): string {
+  const header = `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+
+  return hunk.heading ? `${header} ${hunk.heading}` : header;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
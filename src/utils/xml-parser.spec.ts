@@ -0,0 +1,385 @@
+import { XmlElement, XmlStreamParser, decodeXmlEntities, parseXml } from './xml-parser';
+
+/**
+ * Output shapes of svn 1.8 (attributes on one line, no text-mods/prop-mods)
+ * and svn 1.14 (one attribute per line, extra path attributes)
+ */
+const FIXTURES: Record<string, string> = {
+  'log 1.8': `<?xml version="1.0" encoding="UTF-8"?>
+<log>
+<logentry
+   revision="3">
+<author>jane</author>
+<date>2014-05-02T08:00:00.000000Z</date>
+<paths>
+<path
+   kind="file"
+   action="M">/trunk/README</path>
+<path
+   kind="dir"
+   copyfrom-path="/trunk"
+   copyfrom-rev="2"
+   action="A">/tags/1.0</path>
+</paths>
+<msg>Tag 1.0
+
+Includes &lt;fixes&gt; &amp; notes</msg>
+</logentry>
+<logentry
+   revision="2">
+<author>joe</author>
+<date>2014-05-01T08:00:00.000000Z</date>
+<msg></msg>
+</logentry>
+</log>
+`,
+  'log 1.14': `<?xml version="1.0" encoding="UTF-8"?>
+<log>
+<logentry
+   revision="42">
+<author>j&#246;rg</author>
+<date>2021-11-30T12:34:56.789012Z</date>
+<paths>
+<path
+   text-mods="true"
+   kind="file"
+   action="M"
+   prop-mods="true">/trunk/src/a&amp;b.ts</path>
+</paths>
+<msg>Line one
+Line two</msg>
+<revprops>
+<property
+   name="svn:log">Line one
+Line two</property>
+</revprops>
+</logentry>
+</log>
+`,
+  'status 1.8': `<?xml version="1.0" encoding="UTF-8"?>
+<status>
+<target
+   path=".">
+<entry
+   path="a.txt">
+<wc-status
+   props="none"
+   item="modified"
+   revision="5">
+<commit
+   revision="4">
+<author>jane</author>
+<date>2014-05-02T08:00:00.000000Z</date>
+</commit>
+</wc-status>
+</entry>
+<entry
+   path="new.txt">
+<wc-status
+   props="none"
+   item="unversioned">
+</wc-status>
+</entry>
+</target>
+</status>
+`,
+  'status 1.14': `<?xml version="1.0" encoding="UTF-8"?>
+<status>
+<target
+   path=".">
+<entry
+   path="moved.txt">
+<wc-status
+   item="added"
+   revision="-1"
+   props="none"
+   copied="true"
+   moved-from="old.txt">
+</wc-status>
+</entry>
+<against
+   revision="42"/>
+</target>
+<changelist
+   name="review">
+<entry
+   path="b.txt">
+<wc-status
+   item="modified"
+   revision="42"
+   props="modified">
+<commit
+   revision="40">
+<author>joe</author>
+<date>2021-11-29T00:00:00.000000Z</date>
+</commit>
+</wc-status>
+</entry>
+</changelist>
+</status>
+`,
+  'list 1.14': `<?xml version="1.0" encoding="UTF-8"?>
+<lists>
+<list
+   path="file:///srv/repo/trunk">
+<entry
+   kind="file">
+<name>R&amp;D.txt</name>
+<size>1024</size>
+<commit
+   revision="7">
+<author>jane</author>
+<date>2021-11-29T00:00:00.000000Z</date>
+</commit>
+<lock>
+<token>opaquelocktoken:1234</token>
+<owner>jane</owner>
+<comment>editing
+two lines</comment>
+<created>2021-11-29T00:00:00.000000Z</created>
+</lock>
+</entry>
+<entry
+   kind="dir">
+<name>src</name>
+<commit
+   revision="6">
+<author>joe</author>
+<date>2021-11-28T00:00:00.000000Z</date>
+</commit>
+</entry>
+</list>
+</lists>
+`,
+};
+
+/**
+ * Deterministic pseudo-random generator (mulberry32) so failures are reproducible
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Plain structure of an element tree for comparisons
+ */
+function toPlain(element: XmlElement): unknown {
+  return {
+    name: element.name,
+    attributes: element.attributes,
+    text: element.text,
+    children: element.children.map(toPlain),
+  };
+}
+
+function parseInChunks(xml: string, random: () => number): XmlElement {
+  const parser = new XmlStreamParser();
+  let offset = 0;
+
+  while (offset < xml.length) {
+    const size = 1 + Math.floor(random() * 40);
+    parser.write(xml.slice(offset, offset + size));
+    offset += size;
+  }
+
+  return parser.end();
+}
+
+/**
+ * Shuffle attribute order, whitespace and quote style of every start tag
+ */
+function permuteAttributes(xml: string, random: () => number): string {
+  return xml.replace(/<([\w-]+)((?:\s+[\w-]+="[^"]*")+)\s*(\/?)>/g, (_, name: string, attributes: string, selfClosing: string) => {
+    const pairs = Array.from(attributes.matchAll(/([\w-]+)="([^"]*)"/g), (match) => [match[1], match[2]]);
+
+    for (let index = pairs.length - 1; index > 0; index--) {
+      const swap = Math.floor(random() * (index + 1));
+      [pairs[index], pairs[swap]] = [pairs[swap], pairs[index]];
+    }
+
+    const rendered = pairs.map(([key, value]) => {
+      const separator = random() < 0.5 ? '\n   ' : ' ';
+      const quoted = random() < 0.5 || value.includes("'") ? `"${value}"` : `'${value}'`;
+
+      return `${separator}${key}${random() < 0.3 ? ' = ' : '='}${quoted}`;
+    });
+
+    return `<${name}${rendered.join('')}${selfClosing ? '/' : ''}>`;
+  });
+}
+
+describe('xml-parser', () => {
+  describe('decodeXmlEntities', () => {
+    it('should decode predefined and numeric entities once', () => {
+      expect(decodeXmlEntities('&lt;a&gt; &amp;amp; &quot;q&quot; &apos;s&apos; &#246; &#x1F600;')).toBe('<a> &amp; "q" \'s\' ö 😀');
+    });
+
+    it('should keep unknown entities and percent-encoding', () => {
+      expect(decodeXmlEntities('&nbsp; a%20b')).toBe('&nbsp; a%20b');
+    });
+  });
+
+  describe('parseXml', () => {
+    it('should build the element tree with decoded text and attributes', () => {
+      const root = parseXml(FIXTURES['log 1.8']).child('log');
+      const [tagEntry, emptyEntry] = root.childrenNamed('logentry');
+
+      expect(tagEntry.attr('revision')).toBe('3');
+      expect(tagEntry.childText('msg')).toBe('Tag 1.0\n\nIncludes <fixes> & notes');
+      expect(tagEntry.child('paths').childrenNamed('path')[1].attributes).toEqual({ kind: 'dir', 'copyfrom-path': '/trunk', 'copyfrom-rev': '2', action: 'A' });
+      expect(emptyEntry.childText('msg')).toBe('');
+      expect(emptyEntry.child('paths')).toBeUndefined();
+    });
+
+    it('should read CDATA sections verbatim and skip comments and processing instructions', () => {
+      const root = parseXml('<?xml version="1.0"?><!-- <ignored> --><!DOCTYPE log [<!ENTITY x "y">]><log><msg>a <![CDATA[<b> & ]]]]><![CDATA[>]]> c</msg></log>');
+
+      expect(root.children.map((element) => element.name)).toEqual(['log']);
+      expect(root.child('log').childText('msg')).toBe('a <b> & ]]> c');
+    });
+
+    it('should handle self-closing tags and > inside attribute values', () => {
+      const target = parseXml('<target path="a>b"><against revision="4"/></target>').child('target');
+
+      expect(target.attr('path')).toBe('a>b');
+      expect(target.child('against').attr('revision')).toBe('4');
+    });
+
+    it('should keep encoded line breaks in attributes and normalize literal ones', () => {
+      const element = parseXml('<p a="x&#10;y" b="x\r\ny"/>').child('p');
+
+      expect(element.attributes).toEqual({ a: 'x\ny', b: 'x y' });
+    });
+
+    it('should normalize CRLF line endings in text', () => {
+      expect(parseXml('<msg>a\r\nb\rc</msg>').childText('msg')).toBe('a\nb\nc');
+    });
+
+    it('should close unterminated elements and ignore stray end tags', () => {
+      const root = parseXml('</stray><log><logentry revision="1"><msg>cut');
+
+      expect(root.child('log').child('logentry').childText('msg')).toBe('cut');
+    });
+
+    it('should find descendants by name in document order', () => {
+      const root = parseXml(FIXTURES['status 1.14']);
+
+      expect(root.findAll('entry').map((entry) => entry.attr('path'))).toEqual(['moved.txt', 'b.txt']);
+      expect(root.findAll('against', 'changelist').map((element) => element.name)).toEqual(['against', 'changelist']);
+    });
+
+    it('should find descendants of very large and deeply nested documents', () => {
+      const target = new XmlElement('target');
+      for (let index = 0; index < 200_000; index++) {
+        const entry = new XmlElement('entry', { path: String(index) });
+        entry.children.push(new XmlElement('wc-status'));
+        target.children.push(entry);
+      }
+
+      let deepest = new XmlElement('status');
+      const deep = deepest;
+      for (let depth = 0; depth < 50_000; depth++) {
+        const next = new XmlElement('entry');
+        deepest.children.push(next);
+        deepest = next;
+      }
+
+      const entries = target.findAll('entry');
+      expect(entries).toHaveLength(200_000);
+      expect(entries[199_999].attr('path')).toBe('199999');
+      expect(deep.findAll('entry')).toHaveLength(50_000);
+    });
+  });
+
+  describe('XmlStreamParser', () => {
+    it('should report completed elements and detach them on request', () => {
+      const seen: string[] = [];
+      const parser = new XmlStreamParser((element) => {
+        if (element.name === 'logentry') {
+          seen.push(element.attr('revision'));
+
+          return true;
+        }
+      });
+
+      parser.write('<log><logentry revision="2"><msg>a</msg></logen');
+      expect(seen).toEqual([]);
+      parser.write('try><logentry revision="1"/>');
+      expect(seen).toEqual(['2', '1']);
+
+      expect(parser.end().child('log').children).toEqual([]);
+    });
+
+    it('should only treat a bracket inside the DOCTYPE tag as an internal subset', () => {
+      const parser = new XmlStreamParser();
+
+      for (const chunk of ['<!DOCTYPE log', '><log><msg>a [b', ']</msg><msg>c ]> d</msg></log>']) {
+        parser.write(chunk);
+      }
+
+      expect(
+        parser
+          .end()
+          .findAll('msg')
+          .map((msg) => msg.text),
+      ).toEqual(['a [b]', 'c ]> d']);
+    });
+
+    it('should keep long text streamed in small chunks, entities split across chunks included', () => {
+      const parser = new XmlStreamParser();
+      const message = 'x'.repeat(50000) + ' &amp; ' + 'y'.repeat(50000);
+      const xml = `<msg>${message}</msg>`;
+
+      for (let index = 0; index < xml.length; index += 7) {
+        parser.write(xml.slice(index, index + 7));
+      }
+
+      expect(parser.end().child('msg').text).toBe('x'.repeat(50000) + ' & ' + 'y'.repeat(50000));
+    });
+  });
+
+  describe('fuzzing', () => {
+    const seeds = Array.from({ length: 25 }, (_, index) => index + 1);
+
+    it.each(Object.keys(FIXTURES))('should parse %s identically in random chunks', (fixture) => {
+      const expected = toPlain(parseXml(FIXTURES[fixture]));
+
+      seeds.forEach((seed) => {
+        expect(toPlain(parseInChunks(FIXTURES[fixture], createRandom(seed)))).toEqual(expected);
+      });
+    });
+
+    it.each(Object.keys(FIXTURES))('should parse %s identically with permuted attributes', (fixture) => {
+      const expected = toPlain(parseXml(FIXTURES[fixture]));
+
+      seeds.forEach((seed) => {
+        const random = createRandom(seed);
+        const permuted = permuteAttributes(FIXTURES[fixture], random);
+
+        expect(toPlain(parseInChunks(permuted, random))).toEqual(expected);
+      });
+    });
+
+    it('should never throw on truncated or random input', () => {
+      const random = createRandom(99);
+      const alphabet = '<>/="\'&;!?[]-abc \n#x10';
+      const inputs = Object.values(FIXTURES).map((xml) => xml.slice(0, Math.floor(random() * xml.length)));
+
+      for (let count = 0; count < 200; count++) {
+        inputs.push(Array.from({ length: Math.floor(random() * 80) }, () => alphabet[Math.floor(random() * alphabet.length)]).join(''));
+      }
+
+      inputs.forEach((input) => {
+        expect(() => parseInChunks(input, random)).not.toThrow();
+      });
+    });
+  });
+});
@@ -0,0 +1,379 @@
+/**
+ * Minimal XML tokenizer and tree builder for `svn --xml` output
+ * Dependency free, attribute-order independent, handles CDATA, comments, processing instructions and entities.
+ * Input can be fed incrementally (streamed output); elements are reported when their end tag is reached.
+ */
+
+/**
+ * Predefined XML entities
+ */
+const XML_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Longest construct prefix (`<![CDATA[`) that must be complete before a markup type can be decided
+ */
+const MAX_MARKUP_PREFIX = '<![CDATA['.length;
+
+/**
+ * Attribute name/value pairs in a start tag, with single or double quotes
+ */
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Decode predefined and numeric XML entities
+ * Unknown entities are kept as written
+ */
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#[xX][\da-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity[0] !== '#') {
+      return XML_ENTITIES[entity] ?? match;
+    }
+
+    const codePoint = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+
+    return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+  });
+}
+
+/**
+ * XML element node
+ */
+export class XmlElement {
+  /**
+   * Child elements in document order
+   */
+  readonly children: XmlElement[] = [];
+
+  /**
+   * Concatenated text content directly inside this element (entities decoded, CDATA included)
+   */
+  text = '';
+
+  constructor(
+    readonly name: string,
+    readonly attributes: Record<string, string> = {},
+  ) {}
+
+  /**
+   * Get an attribute value
+   */
+  attr(name: string): string | undefined {
+    return Object.prototype.hasOwnProperty.call(this.attributes, name) ? this.attributes[name] : undefined;
+  }
+
+  /**
+   * Get the first child element with the given name
+   */
+  child(name: string): XmlElement | undefined {
+    return this.children.find((element) => element.name === name);
+  }
+
+  /**
+   * Get all child elements with the given name
+   */
+  childrenNamed(name: string): XmlElement[] {
+    return this.children.filter((element) => element.name === name);
+  }
+
+  /**
+   * Get the text of the first child element with the given name
+   */
+  childText(name: string): string | undefined {
+    return this.child(name)?.text;
+  }
+
+  /**
+   * Get all descendant elements with one of the given names (depth-first, document order)
+   */
+  findAll(...names: string[]): XmlElement[] {
+    const found: XmlElement[] = [];
+    // Explicit stack instead of recursion, so large or deep documents cannot overflow the call stack
+    const pending = [...this.children].reverse();
+
+    while (pending.length > 0) {
+      const element = pending.pop();
+      if (names.includes(element.name)) {
+        found.push(element);
+      }
+      for (let index = element.children.length - 1; index >= 0; index--) {
+        pending.push(element.children[index]);
+      }
+    }
+
+    return found;
+  }
+}
+
+/**
+ * Called when an element's end tag is reached
+ * Return true to detach the element from its parent (keeps memory flat while streaming)
+ */
+export type XmlElementHandler = (element: XmlElement, parent: XmlElement) => boolean | void;
+
+/**
+ * Incremental XML parser
+ * Malformed input never throws: unmatched end tags are ignored and open elements are closed at the end.
+ */
+export class XmlStreamParser {
+  /**
+   * Document node holding the top-level element(s)
+   */
+  readonly document = new XmlElement('#document');
+
+  private readonly stack: XmlElement[] = [this.document];
+  private buffer = '';
+  // Length of the buffered text already known to hold no `<`, so it is not rescanned on every write
+  private textScanned = 0;
+
+  constructor(private readonly onElementEnd?: XmlElementHandler) {}
+
+  /**
+   * Feed a chunk of XML text
+   */
+  write(chunk: string): void {
+    this.buffer += chunk;
+    this.consume(false);
+  }
+
+  /**
+   * Flush remaining input and close open elements
+   * @returns Document node
+   */
+  end(): XmlElement {
+    this.consume(true);
+
+    while (this.stack.length > 1) {
+      this.closeTop();
+    }
+
+    return this.document;
+  }
+
+  private consume(final: boolean): void {
+    const buffer = this.buffer;
+    let pos = 0;
+
+    const scanFrom = this.textScanned;
+    this.textScanned = 0;
+
+    while (pos < buffer.length) {
+      const markupStart = buffer.indexOf('<', pos === 0 ? scanFrom : pos);
+
+      if (markupStart === -1) {
+        if (!final) {
+          this.textScanned = buffer.length - pos;
+          break;
+        }
+        this.appendText(buffer.slice(pos));
+        pos = buffer.length;
+        break;
+      }
+
+      if (markupStart > pos) {
+        this.appendText(buffer.slice(pos, markupStart));
+        pos = markupStart;
+      }
+
+      if (!final && buffer.length - pos < MAX_MARKUP_PREFIX && !this.isCompleteStartTag(buffer, pos)) {
+        break;
+      }
+
+      const next = this.consumeMarkup(buffer, pos, final);
+      if (next === -1) {
+        break;
+      }
+      pos = next;
+    }
+
+    this.buffer = buffer.slice(pos);
+  }
+
+  /**
+   * Consume one markup construct starting at `pos`
+   * @returns Position after the construct, or -1 if more input is needed
+   */
+  private consumeMarkup(buffer: string, pos: number, final: boolean): number {
+    if (buffer.startsWith('<!--', pos)) {
+      return this.skipUntil(buffer, pos + 4, '-->', final);
+    }
+
+    if (buffer.startsWith('<![CDATA[', pos)) {
+      const end = buffer.indexOf(']]>', pos + 9);
+      if (end === -1) {
+        if (final) {
+          this.appendRawText(buffer.slice(pos + 9));
+
+          return buffer.length;
+        }
+
+        return -1;
+      }
+      this.appendRawText(buffer.slice(pos + 9, end));
+
+      return end + 3;
+    }
+
+    if (buffer.startsWith('<?', pos)) {
+      return this.skipUntil(buffer, pos + 2, '?>', final);
+    }
+
+    if (buffer.startsWith('<!', pos)) {
+      // DOCTYPE, possibly with an internal subset in brackets; only a `[` before the first `>` opens one
+      const tagEnd = buffer.indexOf('>', pos);
+      if (tagEnd === -1) {
+        return final ? buffer.length : -1;
+      }
+
+      const subsetStart = buffer.slice(pos, tagEnd).indexOf('[');
+      if (subsetStart !== -1) {
+        return this.skipUntil(buffer, pos + subsetStart, ']>', final);
+      }
+
+      return tagEnd + 1;
+    }
+
+    const tagEnd = this.findTagEnd(buffer, pos + 1);
+    if (tagEnd === -1) {
+      if (final) {
+        this.appendText(buffer.slice(pos));
+
+        return buffer.length;
+      }
+
+      return -1;
+    }
+
+    this.handleTag(buffer.slice(pos + 1, tagEnd));
+
+    return tagEnd + 1;
+  }
+
+  private skipUntil(buffer: string, from: number, terminator: string, final: boolean): number {
+    const end = buffer.indexOf(terminator, from);
+
+    if (end === -1) {
+      return final ? buffer.length : -1;
+    }
+
+    return end + terminator.length;
+  }
+
+  private isCompleteStartTag(buffer: string, pos: number): boolean {
+    return buffer[pos + 1] !== '!' && this.findTagEnd(buffer, pos + 1) !== -1;
+  }
+
+  /**
+   * Find the closing `>` of a tag, ignoring `>` inside quoted attribute values
+   */
+  private findTagEnd(buffer: string, from: number): number {
+    let quote: string | undefined;
+
+    for (let index = from; index < buffer.length; index++) {
+      const char = buffer[index];
+
+      if (quote) {
+        if (char === quote) {
+          quote = undefined;
+        }
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '>') {
+        return index;
+      }
+    }
+
+    return -1;
+  }
+
+  private handleTag(content: string): void {
+    if (content.startsWith('/')) {
+      this.closeElement(content.slice(1).trim());
+
+      return;
+    }
+
+    const selfClosing = content.endsWith('/');
+    const body = selfClosing ? content.slice(0, -1) : content;
+    const nameMatch = body.match(/^\s*([^\s/>]+)/);
+
+    if (!nameMatch) {
+      return;
+    }
+
+    const element = new XmlElement(nameMatch[1], this.parseAttributes(body.slice(nameMatch[0].length)));
+    const parent = this.stack[this.stack.length - 1];
+    parent.children.push(element);
+
+    if (selfClosing) {
+      this.finishElement(element, parent);
+    } else {
+      this.stack.push(element);
+    }
+  }
+
+  private parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+
+    for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+      const rawValue = match[2] ?? match[3];
+      // Attribute value normalization: literal whitespace becomes a space, encoded whitespace (&#10;) is kept
+      attributes[match[1]] = decodeXmlEntities(rawValue.replace(/\r\n|[\t\n\r]/g, ' '));
+    }
+
+    return attributes;
+  }
+
+  private closeElement(name: string): void {
+    const index = this.stack.map((element) => element.name).lastIndexOf(name);
+
+    // Ignore end tags without a matching open element
+    if (index < 1) {
+      return;
+    }
+
+    while (this.stack.length > index) {
+      this.closeTop();
+    }
+  }
+
+  private closeTop(): void {
+    const element = this.stack.pop();
+    this.finishElement(element, this.stack[this.stack.length - 1]);
+  }
+
+  private finishElement(element: XmlElement, parent: XmlElement): void {
+    if (this.onElementEnd && this.onElementEnd(element, parent) === true) {
+      const index = parent.children.lastIndexOf(element);
+      if (index !== -1) {
+        parent.children.splice(index, 1);
+      }
+    }
+  }
+
+  private appendText(text: string): void {
+    this.appendRawText(decodeXmlEntities(text));
+  }
+
+  private appendRawText(text: string): void {
+    if (this.stack.length > 1) {
+      this.stack[this.stack.length - 1].text += text.replace(/\r\n?/g, '\n');
+    }
+  }
+}
+
+/**
+ * Parse a complete XML document
+ * @returns Document node; the root element is its first child
+ */
+export function parseXml(xml: string): XmlElement {
+  const parser = new XmlStreamParser();
+  parser.write(xml);
+
+  return parser.end();
+}